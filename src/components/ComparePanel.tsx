@@ -0,0 +1,73 @@
+import React from "react";
+import { SPEED_GRADIENT_CSS } from "../lib/trails";
+import { COMPARE_EVENT_LABEL, HEAT_MAX_M, type CompareEvent, type CompareSpace } from "../lib/deliveryCompare";
+
+const field: React.CSSProperties = { background: "#0f172a", color: "#e2e8f0", border: "1px solid #1e293b", borderRadius: 6, fontSize: 12 };
+
+// The compare track's colour in the scene and on paired sparklines
+export const COMPARE_COLOR = "#c084fc";
+
+// ---- Overlay a second delivery: track, time anchor, spatial anchor, per-joint distance at this frame ----
+export default function ComparePanel({
+  options, value, onChange, event, onEvent, events, space, onSpace, fieldLabel, distances, note,
+}: {
+  options: { index: number; label: string }[];
+  value: number | null;
+  onChange: (index: number | null) => void;
+  event: CompareEvent;
+  onEvent: (e: CompareEvent) => void;
+  events: CompareEvent[];        // anchors offered for this role
+  space: CompareSpace;
+  onSpace: (s: CompareSpace) => void;
+  fieldLabel: string;            // "Rubber" for pitchers, "Plate" for hitters
+  distances: Record<string, number> | null;  // this frame; null when the compare clip has no matching frame
+  note?: string;                 // why the overlay is not drawn
+}) {
+  const ranked = distances ? Object.entries(distances).sort((a, b) => b[1] - a[1]) : [];
+  const mean = ranked.length ? ranked.reduce((s, [, d]) => s + d, 0) / ranked.length : undefined;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <b style={{ opacity: 0.85 }}>Compare</b>
+        <select value={value ?? ""} onChange={(e) => onChange(e.target.value === "" ? null : +e.target.value)} style={{ ...field, marginLeft: "auto", maxWidth: 200 }}>
+          <option value="">— none —</option>
+          {options.map((o) => <option key={o.index} value={o.index}>{o.label}</option>)}
+        </select>
+      </div>
+      {value != null && (
+        <>
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+            <span style={{ opacity: 0.85 }}>Align on</span>
+            <select value={event} onChange={(e) => onEvent(e.target.value as CompareEvent)} style={field}>
+              {events.map((e) => <option key={e} value={e}>{COMPARE_EVENT_LABEL[e]}</option>)}
+            </select>
+            <select value={space} onChange={(e) => onSpace(e.target.value as CompareSpace)} style={field}
+              title="Pelvis: both pelvises meet at the event. Field: each track placed by its own landmarks">
+              <option value="pelvis">Pelvis</option>
+              <option value="field">{fieldLabel}</option>
+            </select>
+          </div>
+          {note ? (
+            <div style={{ color: "#f59e0b" }}>⚠ {note}</div>
+          ) : (
+            <>
+              <div style={{ display: "flex", alignItems: "center", gap: 6, opacity: 0.8 }}
+                title={`Joint colour on the ${COMPARE_COLOR} skeleton: distance to the same joint of the selected track`}>
+                0 <span style={{ flex: 1, height: 6, borderRadius: 3, background: SPEED_GRADIENT_CSS }} /> {(HEAT_MAX_M * 100).toFixed(0)}+ cm
+              </div>
+              {mean != null ? (
+                <div style={{ fontVariantNumeric: "tabular-nums" }}>
+                  mean <b>{(mean * 100).toFixed(0)} cm</b>
+                  <span style={{ opacity: 0.7 }}> · {ranked.slice(0, 3).map(([j, d]) => `${j} ${(d * 100).toFixed(0)}`).join(" · ")}</span>
+                </div>
+              ) : (
+                <div style={{ opacity: 0.7 }}>No matching frame in the compared clip here.</div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React from "react";
+import type { FieldFrame, FieldSource, HitterFieldMeasures, PitcherFieldMeasures } from "../lib/fieldGeometry";
+
+const cell: React.CSSProperties = { padding: "2px 6px", borderBottom: "1px solid #1e293b", textAlign: "left" };
+const m = (v?: number, digits = 2) => (v != null ? `${v.toFixed(digits)} m` : "-");
+const ftIn = (v?: number) => (v != null ? `${(v * 3.28084).toFixed(1)} ft` : "");
+
+const SOURCE_LABEL: Record<FieldSource, string> = {
+  pitcher: "from the pitcher's position",
+  ball: "mound direction from the ball path",
+  anchored: "rubber placed under the pitcher's first-frame feet",
+  assumed: "mound direction from the HOME guess",
+};
+
+// ---- Field landmarks: toggle, how they were placed, and what they measure ----
+export default function FieldPanel({
+  field, show, onShow, zone, pitcher, hitter, homeDisagrees, onJump,
+}: {
+  field: FieldFrame;
+  show: boolean;
+  onShow: (on: boolean) => void;
+  zone: { bottom: number; top: number; height: number; basis: string };
+  pitcher?: PitcherFieldMeasures;
+  hitter?: HitterFieldMeasures | null;
+  homeDisagrees: boolean;        // the field says home is opposite the Flip HOME setting
+  onJump: (frame: number) => void;
+}) {
+  const row = (label: string, value: string, note?: string, title?: string, at?: number) => (
+    <tr key={label} title={title} onClick={at != null ? () => onJump(at) : undefined} style={{ cursor: at != null ? "pointer" : undefined }}>
+      <td style={cell}>{label}</td>
+      <td style={cell}><b>{value}</b></td>
+      <td style={{ ...cell, opacity: 0.7 }}>{note ?? ""}</td>
+    </tr>
+  );
+  const deg = (v?: number) => (v != null ? `${v > 0 ? "+" : ""}${v.toFixed(0)}°` : "-");
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+      <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <input type="checkbox" checked={show} onChange={(e) => onShow(e.target.checked)} />
+        <b style={{ opacity: 0.85 }}>Field</b>
+        <span style={{ opacity: 0.7 }}>mound, rubber, plate, boxes, zone — {SOURCE_LABEL[field.source]}</span>
+      </label>
+      {homeDisagrees && (
+        <div style={{ color: "#f59e0b" }}>⚠ The field puts home the other way round — try Flip HOME.</div>
+      )}
+      <table style={{ borderCollapse: "collapse", width: "100%", fontVariantNumeric: "tabular-nums" }}>
+        <tbody>
+          {row("Strike zone", `${zone.bottom.toFixed(2)}–${zone.top.toFixed(2)} m`, `${zone.height.toFixed(2)} m hitter (${zone.basis})`)}
+          {pitcher && [
+            row("Extension", m(pitcher.extension), ftIn(pitcher.extension), "Rubber front edge → throwing wrist at release, toward the plate"),
+            row("Release height", m(pitcher.releaseHeight), ftIn(pitcher.releaseHeight), "Throwing wrist above the plate at release"),
+            row("Release side", m(pitcher.releaseSide), undefined, "Off the rubber → plate line; + toward the throwing-arm side"),
+            row("Stride length", m(pitcher.strideLength), undefined, "Drive ankle at the first frame → lead ankle at foot strike, on the ground"),
+            row("Stride direction", deg(pitcher.strideDirection),
+              pitcher.strideDirection != null ? (pitcher.strideDirection > 0 ? "closed" : "open") : undefined,
+              "Landing vs. the rubber → plate line; + closed (across toward the throwing-arm side)"),
+          ]}
+          {hitter && [
+            row("Off the plate", m(hitter.offPlate), undefined, "Feet midpoint → near edge of the plate", hitter.frame),
+            row("Depth", m(hitter.depth), hitter.depth >= 0 ? "ahead of the plate front" : "behind the plate front",
+              "Feet midpoint vs. the front edge of the plate, + toward the mound", hitter.frame),
+            row("In the box", hitter.inBox ? "yes" : "no", `frame ${hitter.frame}`, "Both ankles inside a batter's box", hitter.frame),
+          ]}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from "react";
+import type { TrackFrame, V3 } from "../lib/parseHawkEye";
+import { FILTER_GROUP_LABEL, filterGroupOf, type FilterGroup, type FilterSettings } from "../lib/filtering";
+
+type Quantity = "speed" | "x" | "y" | "z";
+const QUANTITY_LABEL: Record<Quantity, string> = { speed: "Speed (m/s)", x: "X (m)", y: "Y (m)", z: "Z (m)" };
+
+const field: React.CSSProperties = { background: "#0f172a", color: "#e2e8f0", border: "1px solid #1e293b", borderRadius: 6, fontSize: 12 };
+
+function trace(frames: TrackFrame[], joint: string, q: Quantity): number[] {
+  const pos = frames.map((f) => f.joints[joint] as V3 | undefined);
+  if (q !== "speed") {
+    const axis = q === "x" ? 0 : q === "y" ? 1 : 2;
+    return pos.map((p) => (p ? p[axis] : NaN));
+  }
+  return pos.map((p, i) => {
+    const a = pos[i - 1], dt = frames[i].time - (frames[i - 1]?.time ?? 0);
+    return p && a && dt > 0 ? Math.hypot(p[0] - a[0], p[1] - a[1], p[2] - a[2]) / dt : NaN;
+  });
+}
+
+// ---- Filtering: per-group cutoffs, with one joint's raw and filtered trace overlaid ----
+export default function FilterPanel({
+  settings, onChange, sampleHz, raw, filtered, frame, defaultJoint,
+}: {
+  settings: FilterSettings;
+  onChange: (s: FilterSettings) => void;
+  sampleHz: number;
+  raw: TrackFrame[];
+  filtered: TrackFrame[];
+  frame: number;
+  defaultJoint: string;
+}) {
+  const joints = useMemo(() => {
+    const names = new Set<string>();
+    for (let i = 0; i < raw.length; i += Math.max(1, Math.floor(raw.length / 20))) Object.keys(raw[i].joints).forEach((k) => names.add(k));
+    return [...names].sort();
+  }, [raw]);
+  const [joint, setJoint] = useState(defaultJoint);
+  const [quantity, setQuantity] = useState<Quantity>("speed");
+  const shown = joints.includes(joint) ? joint : joints.includes(defaultJoint) ? defaultJoint : joints[0];
+
+  const w = 260, h = 80, pad = 6;
+  const a = useMemo(() => (shown ? trace(raw, shown, quantity) : []), [raw, shown, quantity]);
+  const b = useMemo(() => (shown && settings.enabled ? trace(filtered, shown, quantity) : []), [filtered, shown, quantity, settings.enabled]);
+  const vals = [...a, ...b].filter(Number.isFinite);
+  const min = vals.length ? Math.min(...vals) : 0, max = vals.length ? Math.max(...vals) : 1;
+  const x = (i: number) => pad + (w - 2 * pad) * (i / Math.max(1, a.length - 1));
+  const y = (v: number) => pad + (h - 2 * pad) * (1 - (v - min) / ((max - min) || 1));
+  const path = (s: number[]) => s.map((v, i) => (Number.isFinite(v) ? `${i && Number.isFinite(s[i - 1]) ? "L" : "M"}${x(i)},${y(v)}` : "")).join(" ");
+
+  const setCutoff = (g: FilterGroup, hz: number) => onChange({ ...settings, cutoffHz: { ...settings.cutoffHz, [g]: hz } });
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <b style={{ opacity: 0.85 }}>Filtering</b>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }} title="Zero-lag 4th-order Butterworth (2nd-order forward + backward), applied once per track">
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} />
+          Low-pass
+        </label>
+        <span style={{ opacity: 0.6 }}>{sampleHz > 0 ? `${sampleHz.toFixed(0)} Hz sampling` : ""}</span>
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 4, opacity: settings.enabled ? 1 : 0.5 }}>
+        {(Object.keys(FILTER_GROUP_LABEL) as FilterGroup[]).map((g) => (
+          <React.Fragment key={g}>
+            <span>{FILTER_GROUP_LABEL[g]}</span>
+            <span>
+              <input type="number" min={1} max={Math.max(1, Math.floor(sampleHz * 0.45))} step={1} value={settings.cutoffHz[g]}
+                disabled={!settings.enabled} style={{ ...field, width: 56 }}
+                onChange={(e) => { const v = +e.target.value; if (v > 0) setCutoff(g, v); }} /> Hz
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+      <div style={{ display: "flex", gap: 6 }}>
+        <select value={shown} onChange={(e) => setJoint(e.target.value)} style={{ ...field, flex: 1 }}>
+          {joints.map((j) => <option key={j} value={j}>{j} · {FILTER_GROUP_LABEL[filterGroupOf(j)]}</option>)}
+        </select>
+        <select value={quantity} onChange={(e) => setQuantity(e.target.value as Quantity)} style={field}>
+          {(Object.keys(QUANTITY_LABEL) as Quantity[]).map((q) => <option key={q} value={q}>{QUANTITY_LABEL[q]}</option>)}
+        </select>
+      </div>
+      <svg width={w} height={h} style={{ background: "#0b1224", border: "1px solid #1e293b", borderRadius: 8 }}>
+        <path d={path(a)} fill="none" stroke="#64748b" strokeWidth="1" />
+        {!!b.length && <path d={path(b)} fill="none" stroke="#93c5fd" strokeWidth="1.5" />}
+        <line x1={x(frame)} x2={x(frame)} y1={pad} y2={h - pad} stroke="#ef4444" strokeDasharray="2,2" />
+      </svg>
+      <div style={{ opacity: 0.6 }}>
+        <span style={{ color: "#64748b" }}>━</span> raw{settings.enabled && <> · <span style={{ color: "#93c5fd" }}>━</span> filtered</>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from "react";
+import type { EventKind } from "../lib/events";
+
+export interface ScrubberMark {
+  frame: number;
+  label: string;
+  kind: EventKind;
+  title?: string;                // hover text (source, time)
+  id?: string;                   // set with draggable: reported back by onMarkDrag
+  draggable?: boolean;
+}
+
+/** A frame range drawn as a coloured strip over the slider (phases, low-confidence data, …). */
+export interface ScrubberBand {
+  start: number;
+  end: number;
+  color: string;
+  label: string;
+}
+
+const MARK_COLOR: Record<EventKind, string> = {
+  pitch: "#a78bfa", release: "#f472b6", footStrike: "#34d399", plateCrossing: "#fbbf24",
+  contact: "#f87171", bounce: "#94a3b8", catch: "#60a5fa", other: "#cbd5e1",
+};
+
+const ROW_H = 14;
+const MIN_GAP_PCT = 9;           // closer labels move to the next row
+
+// ---- Frame slider with clickable event ticks underneath; draggable ticks are analyst overrides ----
+export default function FrameScrubber({
+  n, value, onChange, marks = [], bands = [], lowConfidence = [], onMarkDrag,
+}: {
+  n: number;
+  value: number;
+  onChange: (frame: number) => void;
+  marks?: ScrubberMark[];
+  bands?: ScrubberBand[];
+  lowConfidence?: ScrubberBand[];  // thin strip under the phases: frames resting on filled / missing joints
+  onMarkDrag?: (id: string, frame: number) => void;
+}) {
+  const max = Math.max(0, n - 1);
+  const pct = (f: number) => (max ? (f / max) * 100 : 0);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ id: string; frame: number; moved: boolean } | null>(null);
+
+  const frameAt = (clientX: number) => {
+    const r = trackRef.current?.getBoundingClientRect();
+    if (!r || r.width <= 0) return 0;
+    return Math.round(Math.min(1, Math.max(0, (clientX - r.left) / r.width)) * max);
+  };
+  const dragProps = (m: ScrubberMark) => !m.draggable || !m.id ? {} : {
+    onPointerDown: (e: React.PointerEvent) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ id: m.id!, frame: m.frame, moved: false });
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!drag || drag.id !== m.id) return;
+      const frame = frameAt(e.clientX);
+      if (frame !== drag.frame) { setDrag({ ...drag, frame, moved: true }); onChange(frame); }
+    },
+    onPointerUp: () => {
+      if (drag && drag.id === m.id && drag.moved) onMarkDrag?.(drag.id, drag.frame);
+      setDrag(null);
+    },
+  };
+
+  // Stagger labels into rows so neighbouring events stay readable
+  const lastInRow: number[] = [];
+  // Stable keys: a mark being dragged must not remount (it holds the pointer capture)
+  const shown = marks.map((m, k) => ({ ...m, key: m.id ?? `e${k}`, ...(drag && m.id === drag.id ? { frame: drag.frame } : {}) }));
+  const placed = [...shown].sort((a, b) => a.frame - b.frame).map((m) => {
+    const x = pct(m.frame);
+    let row = lastInRow.findIndex((last) => x - last >= MIN_GAP_PCT);
+    if (row < 0) row = lastInRow.length < 3 ? lastInRow.length : lastInRow.length - 1;
+    lastInRow[row] = x;
+    return { ...m, x, row };
+  });
+  const rows = Math.max(0, ...placed.map((m) => m.row + 1));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column" }}>
+      {!!bands.length && (
+        <div style={{ position: "relative", height: 6, margin: "0 8px", borderRadius: 3, background: "#0b1224" }}>
+          {bands.map((b, i) => (
+            <div key={i} title={`${b.label}: frames ${b.start}–${b.end}`} onClick={() => onChange(b.start)}
+              style={{
+                position: "absolute", top: 0, bottom: 0, cursor: "pointer", background: b.color, opacity: 0.8,
+                left: `${pct(b.start)}%`, width: `${Math.max(0.5, pct(b.end) - pct(b.start))}%`,
+              }} />
+          ))}
+        </div>
+      )}
+      {!!lowConfidence.length && (
+        <div style={{ position: "relative", height: 3, margin: "2px 8px 0" }}>
+          {lowConfidence.map((b, i) => (
+            <div key={i} title={`${b.label}\nframes ${b.start}–${b.end}`} onClick={() => onChange(b.start)}
+              style={{
+                position: "absolute", top: 0, bottom: 0, cursor: "pointer", background: b.color,
+                left: `${pct(b.start)}%`, width: `${Math.max(0.5, pct(b.end) - pct(b.start))}%`,
+              }} />
+          ))}
+        </div>
+      )}
+      <input type="range" min={0} max={max} value={value} onChange={(e) => onChange(+e.target.value)} />
+      {!!placed.length && (
+        <div ref={trackRef} style={{ position: "relative", height: rows * ROW_H + 6, margin: "0 8px", fontSize: 10, touchAction: "none" }}>
+          {placed.map((m) => (
+            <button
+              key={m.key}
+              title={(m.title ?? `${m.label} · frame ${m.frame}`) + (m.draggable ? "\nDrag to override" : "")}
+              onClick={() => onChange(m.frame)}
+              {...dragProps(m)}
+              style={{
+                position: "absolute", left: `${m.x}%`, top: 0, transform: "translateX(-50%)",
+                display: "flex", flexDirection: "column", alignItems: "center",
+                background: "none", border: "none", padding: 0, cursor: m.draggable ? "ew-resize" : "pointer",
+                color: m.frame === value ? "#f8fafc" : MARK_COLOR[m.kind],
+              }}
+            >
+              <span style={{ width: 2, height: 4 + m.row * ROW_H, background: MARK_COLOR[m.kind] }} />
+              <span style={{ whiteSpace: "nowrap", lineHeight: `${ROW_H - 2}px`, fontWeight: m.frame === value ? 700 : 400 }}>
+                {m.label}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
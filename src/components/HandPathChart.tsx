@@ -0,0 +1,73 @@
+import React from "react";
+import type { V3 } from "../lib/parseHawkEye";
+import { HOME_BASE } from "../lib/biomech";
+import type { ScrubberBand } from "./FrameScrubber";
+
+const dot = (a: V3, b: V3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+// Vertical axis of each view: height along the clip's up axis, and across the plate (up × HOME_BASE)
+function views(up: V3): { id: string; label: string; v: (p: V3) => number }[] {
+  const across: V3 = [
+    up[1] * HOME_BASE.z - up[2] * HOME_BASE.y, up[2] * HOME_BASE.x - up[0] * HOME_BASE.z, up[0] * HOME_BASE.y - up[1] * HOME_BASE.x,
+  ];
+  return [
+    { id: "side", label: "Side (height)", v: (p) => dot(p, up) },
+    { id: "top", label: "Top (across plate)", v: (p) => dot(p, across) },
+  ];
+}
+
+// ---- Hand path: wrist midpoint from the side and from above, coloured by swing phase ----
+export default function HandPathChart({
+  points, up, from, to, frame, bands = [], onJump,
+}: {
+  points: V3[];
+  up: V3;                        // the clip's ground normal
+  from: number;
+  to: number;
+  frame: number;
+  bands?: ScrubberBand[];
+  onJump: (frame: number) => void;
+}) {
+  const w = 125, h = 90, pad = 6;
+  const seg = points.slice(from, to + 1);
+  if (seg.length < 2) return null;
+  // Horizontal axis: toward the pitcher (opposite HOME_BASE), shared by both views
+  const u = (p: V3) => -(p[0] * HOME_BASE.x + p[1] * HOME_BASE.y + p[2] * HOME_BASE.z);
+  const colorAt = (i: number) => bands.find((b) => i >= b.start && i < b.end)?.color ?? "#93c5fd";
+
+  const view = (v: (p: V3) => number) => {
+    const us = seg.map(u), vs = seg.map(v);
+    const uMin = Math.min(...us), vMin = Math.min(...vs);
+    const span = Math.max(1e-3, Math.max(...us) - uMin, Math.max(...vs) - vMin);  // equal scale on both axes
+    const x = (p: V3) => pad + (w - 2 * pad) * ((u(p) - uMin) / span);
+    const y = (p: V3) => h - pad - (h - 2 * pad) * ((v(p) - vMin) / span);
+    return { x, y };
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+      <div style={{ opacity: 0.85 }}><b>Hand path</b> <span style={{ opacity: 0.7 }}>→ pitcher</span></div>
+      <div style={{ display: "flex", gap: 10 }}>
+        {views(up).map(({ id, label, v }) => {
+          const { x, y } = view(v);
+          const cur = points[frame];
+          return (
+            <div key={id} style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+              <svg width={w} height={h} style={{ background: "#0b1224", border: "1px solid #1e293b", borderRadius: 8 }}>
+                {seg.slice(1).map((p, k) => {
+                  const i = from + k + 1;
+                  return <line key={i} x1={x(points[i - 1])} y1={y(points[i - 1])} x2={x(p)} y2={y(p)} stroke={colorAt(i - 1)} strokeWidth="1.5" />;
+                })}
+                {seg.map((p, k) => (
+                  <circle key={k} cx={x(p)} cy={y(p)} r="4" fill="transparent" style={{ cursor: "pointer" }} onClick={() => onJump(from + k)} />
+                ))}
+                {cur && frame >= from && frame <= to && <circle cx={x(cur)} cy={y(cur)} r="3" fill="#ef4444" />}
+              </svg>
+              <div style={{ opacity: 0.6, fontSize: 11 }}>{label}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
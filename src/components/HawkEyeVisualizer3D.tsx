@@ -1,75 +1,56 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import { parseHawkEyeJson } from "../lib/parseHawkEye"; // keep relative (no @ alias)
+import type { ParsedBall, ParsedBat, TrackFrame } from "../lib/parseHawkEye"; // keep relative (no @ alias)
+import {
+  HOME_BASE, detectHandedness, emptyBiomechSeries, finiteDiff, frameAtTime, movingAvg, sampleAt, shoulderAngles, thoraxBasis,
+  unwrapToPrev, wrap180, yawDeg,
+  type BiomechSeries,
+} from "../lib/biomech";
+import { describeMetric, formatMetric, mphFromMs, type MetricValue } from "../lib/metrics";
+import { createParsePipeline, type LoadProgress, type WireTrack } from "../lib/parsePipeline";
+import { unpackFrames, type PackedFrames } from "../lib/trackPacking";
+import { loadFilterSettings, sampleRateOf, saveFilterSettings, type FilterSettings } from "../lib/filtering";
+import { lowConfidenceRuns, runAt, type QualityReport } from "../lib/dataQuality";
+import { calibrateSegments, constrainSegments } from "../lib/segmentCalibration";
+import {
+  DEFAULT_HITTER_HEIGHT, FIELD, batterBoxes, detectFieldFrame, hitterFieldMeasures, moundHeight, pitcherFieldMeasures,
+  groundNormalOf, plateOutline, strikeZone, upAxisOf,
+} from "../lib/fieldGeometry";
+import {
+  COMPARE_EVENT_LABEL, HEAT_MAX_M, alignDeliveries, comparedPose, jointDistances, resampleSeries,
+  type CompareEvent, type CompareSpace,
+} from "../lib/deliveryCompare";
+import {
+  BUILTIN_PROFILES, CORE_JOINTS, autoSelectProfile, loadCustomProfiles, loadProfileChoices, resolveProfile,
+  saveCustomProfiles, saveProfileChoices, type JointProfile, type JointResolution,
+} from "../lib/jointProfiles";
+import ParseReportPanel, { type FileReport } from "./ParseReportPanel";
+import JointProfilePanel from "./JointProfilePanel";
+import FrameScrubber, { type ScrubberBand, type ScrubberMark } from "./FrameScrubber";
+import PhaseTable from "./PhaseTable";
+import KinematicSequenceChart from "./KinematicSequenceChart";
+import LeadLegPanel from "./LeadLegPanel";
+import HandPathChart from "./HandPathChart";
+import FilterPanel from "./FilterPanel";
+import SegmentPanel from "./SegmentPanel";
+import PlaybackControls, { usePlayback } from "./PlaybackControls";
+import TrailsPanel, { type GhostPose, type TrailSpan } from "./TrailsPanel";
+import FieldPanel from "./FieldPanel";
+import ComparePanel, { COMPARE_COLOR } from "./ComparePanel";
+import { segmentPitch } from "../lib/phases";
+import { analyzeKinematicSequence } from "../lib/kinematicSequence";
+import { analyzeLeadLeg } from "../lib/leadLeg";
+import { buildTrails, speedColor, type TrailJoint } from "../lib/trails";
+import { SWING_KEY_LABEL, handPath, hitterLeadSide, segmentSwing } from "../lib/swing";
+import { firstEventTime, type TimelineEvent } from "../lib/events";
+import {
+  findBallRelease, findFootStrike, loadEventOverrides, overrideKey, saveEventOverrides,
+  type Detection, type EventOverride,
+} from "../lib/detectors";
+import { buildSkeleton, withBodyCenters, type BonePart, type SkeletonPoint } from "../lib/skeletonTopology";
 
 // =================== Config/Constants ===================
-const FS_DEFAULT = 560; // user-requested fixed indices
-const BR_DEFAULT = 605;// ======== Hawk-Eye metric/name helpers (non-breaking) ========
-function firstNum(...vals:any[]){ for(const v of vals){ const n = Number(v); if(Number.isFinite(n)) return n; } return null; }
-function mphFromMs(ms:number|null){ return ms==null? null : ms*2.23694; }
-function mphFromKph(kph:number|null){ return kph==null? null : kph*0.621371; }
-function inchesFromMm(mm:number|null){ return mm==null? null : (mm/25.4); }
-function inchesFromCm(cm:number|null){ return cm==null? null : (cm/2.54); }
-function feetFromM(m:number|null){ return m==null? null : (m*3.28084); }
-
-function extractNames(root:any){
-  let pitcherName:string|undefined, batterName:string|undefined;
-  const players = Array.isArray(root?.players)? root.players : (Array.isArray(root?.details?.players)? root.details.players : null);
-  if(players){
-    const pit = players.find((p:any)=> (p?.role?.name||"").toLowerCase()==="pitcher") || players[0];
-    const bat = players.find((p:any)=> ["batter","hitter"].includes((p?.role?.name||"").toLowerCase()));
-    pitcherName = pit?.name || pit?.fullName || pit?.displayName;
-    batterName  = bat?.name || bat?.fullName || bat?.displayName;
-  }else{
-    pitcherName = root?.pitcher?.name || root?.details?.pitcher?.name;
-    batterName  = root?.batter?.name  || root?.details?.batter?.name;
-  }
-  return {pitcherName, batterName};
-}
-
-function extractPitchMetrics(root:any){
-  const velocityMph = firstNum(
-    root?.pitch?.velocityMph, root?.pitchData?.velocityMph, root?.details?.pitch?.velocityMph, root?.metrics?.pitch?.velocityMph,
-    (()=>{ const ms = firstNum(root?.pitch?.velocityMs, root?.pitchData?.velocityMs); return mphFromMs(ms); })(),
-    (()=>{ const k = firstNum(root?.pitch?.velocityKph, root?.pitchData?.velocityKph); return mphFromKph(k); })()
-  );
-  const inducedVertBreakIn = firstNum(
-    root?.pitch?.inducedVertBreakIn, root?.pitchData?.inducedVertBreakIn, root?.metrics?.pitch?.ivbIn, root?.metrics?.pitch?.verticalBreakIn,
-    (()=> inchesFromMm(firstNum(root?.pitch?.inducedVertBreakMm, root?.pitchData?.inducedVertBreakMm)) )(),
-    (()=> inchesFromCm(firstNum(root?.pitch?.inducedVertBreakCm, root?.pitchData?.inducedVertBreakCm)) )()
-  );
-  const horizontalBreakIn = firstNum(
-    root?.pitch?.horizontalBreakIn, root?.pitchData?.horizontalBreakIn, root?.metrics?.pitch?.hbIn, root?.metrics?.pitch?.horizontalBreakIn,
-    (()=> inchesFromMm(firstNum(root?.pitch?.horizontalBreakMm, root?.pitchData?.horizontalBreakMm)) )(),
-    (()=> inchesFromCm(firstNum(root?.pitch?.horizontalBreakCm, root?.pitchData?.horizontalBreakCm)) )()
-  );
-  const extensionFt = firstNum(
-    root?.pitch?.extensionFt, root?.pitchData?.extensionFt, root?.metrics?.pitch?.extensionFt,
-    (()=> feetFromM(firstNum(root?.pitch?.extensionM, root?.pitchData?.extensionM)) )()
-  );
-  return { velocityMph, inducedVertBreakIn, horizontalBreakIn, extensionFt };
-}
-
-function extractBatMetrics(root:any){
-  // EV, LA, Bat speed, swing path tilt, attack direction, attack angle
-  const contact = (Array.isArray(root?.events)? root.events : (Array.isArray(root?.details?.events)? root.details.events : []))?.find?.((e:any)=> String(e?.type||"").toUpperCase()==="CONTACT");
-  const evMph = firstNum(root?.battedBall?.exitVelocityMph, contact?.exitVelocityMph,
-                         mphFromMs(firstNum(root?.battedBall?.exitVelocityMs, contact?.exitVelocityMs)),
-                         mphFromKph(firstNum(root?.battedBall?.exitVelocityKph, contact?.exitVelocityKph)));
-  const laDeg = firstNum(root?.battedBall?.launchAngleDeg, contact?.launchAngleDeg, root?.battedBall?.launchAngle, contact?.launchAngle);
-
-  const batSpeedMph = firstNum(root?.swing?.batSpeedMph, root?.metrics?.bat?.speedMph, contact?.batSpeedMph,
-                               mphFromMs(firstNum(root?.swing?.batSpeedMs, contact?.batSpeedMs)),
-                               mphFromKph(firstNum(root?.swing?.batSpeedKph, contact?.batSpeedKph)));
-  const swingPathTiltDeg = firstNum(root?.swing?.swingPathTiltDeg, root?.metrics?.swing?.pathTiltDeg, contact?.swingPathTiltDeg);
-  const attackDirectionDeg = firstNum(root?.swing?.attackDirectionDeg, root?.metrics?.swing?.attackDirectionDeg, contact?.attackDirectionDeg);
-  const attackAngleDeg = firstNum(root?.swing?.attackAngleDeg, root?.metrics?.swing?.attackAngleDeg, contact?.attackAngleDeg);
-
-  return { evMph, laDeg, batSpeedMph, swingPathTiltDeg, attackDirectionDeg, attackAngleDeg };
-}
-
-
 
 // ========== Helpers ==========
 type V3 = [number, number, number];
@@ -90,8 +71,12 @@ const BONES: [number, number][] = [
   [IDX.pelvis, IDX.rHip], [IDX.rHip, IDX.rKnee], [IDX.rKnee, IDX.rAnkle],
 ];
 
-const HOME_BASE = new THREE.Vector3(-1, 0, 0); // pitcher->catcher along -X
-const SMOOTH_ALPHA = 0.35;
+// Full-resolution view: finer joints draw thinner
+const BONE_RADIUS: Record<BonePart, number> = { body: 0.015, foot: 0.01, hand: 0.006, face: 0.006 };
+// Scene mode: the other people in the file, by role (the selected track keeps its own colours)
+const SCENE_ROLE_COLOR: Record<string, number> = { pitcher: 0x93c5fd, hitter: 0xfb923c, batter: 0xfb923c, other: 0xcbd5e1 };
+// Compare overlay: joint-distance colours, 0 → HEAT_MAX_M in this many steps
+const HEAT_STEPS = 12;
 
 function normalizeRoleForTrack(raw: any): string {
   if (raw == null) return "unknown";
@@ -132,319 +117,164 @@ function normalizeRoleForTrack(raw: any): string {
   return "unknown";
 }
 
-function wrap180(d: number) {
-  if (!isFinite(d)) return d;
-  while (d > 180) d -= 360;
-  while (d < -180) d += 360;
-  return d;
-}
-function unwrapToPrev(newDeg: number, prevDeg: number) {
-  let cand = newDeg;
-  while (prevDeg - cand > 180) cand += 360;
-  while (cand - prevDeg > 180) cand -= 360;
-  return wrap180(cand);
-}
-function yawDeg(ref: THREE.Vector3, v: THREE.Vector3) {
-  // Signed angle between ref and v on ground (XY) plane
-  const R = new THREE.Vector3(ref.x, ref.y, 0).normalize();
-  const V = new THREE.Vector3(v.x, v.y, 0).normalize();
-  const cross = R.x * V.y - R.y * V.x;
-  const dot = R.dot(V);
-  return THREE.MathUtils.radToDeg(Math.atan2(cross, dot));
-}
-function finiteDiff(vals: number[], times: number[]) {
-  const n = vals.length, v = new Array(n).fill(0);
-  for (let i = 1; i < n; i++) {
-    const dt = Math.max(1e-6, (times[i] ?? 0) - (times[i - 1] ?? 0));
-    v[i] = (vals[i] - vals[i - 1]) / dt;
-  }
-  return v;
+function isPlayableRole(role: string): boolean {
+  return role === "pitcher" || role === "hitter" || role === "batter";
 }
-function movingAvg(a: number[], k = 3) {
-  if (k <= 1) return a.slice();
-  const n = a.length, out = new Array(n).fill(0);
-  const r = Math.floor(k / 2);
-  for (let i = 0; i < n; i++) {
-    let s = 0, c = 0;
-    for (let j = i - r; j <= i + r; j++) {
-      if (j >= 0 && j < n) { s += a[j]; c++; }
-    }
-    out[i] = c ? s / c : a[i];
-  }
-  return out;
-}
-function fold90(deg: number) {
-  const d = Math.abs(deg % 360);
-  const d180 = d > 180 ? 360 - d : d;
-  return Math.min(d180, 180 - d180);
-}
-function signedAngleInPlane(a: THREE.Vector3, b: THREE.Vector3, planeNormal: THREE.Vector3) {
-  const A = a.clone().normalize();
-  const B = b.clone().normalize();
-  const cross = new THREE.Vector3().crossVectors(A, B);
-  const sin = cross.dot(planeNormal);
-  const cos = A.dot(B);
-  return THREE.MathUtils.radToDeg(Math.atan2(sin, cos));
-}
-
-// Release time from JSON → seconds since clip start (if present)
-function extractReleaseSecondsFromJson(root: any): number | undefined {
-  const events = root?.events ?? root?.details?.events ?? [];
-  const pitchEvt = Array.isArray(events)
-    ? events.find((e: any) => String(e?.type || "").toUpperCase() === "PITCH")
-    : undefined;
-
-  const relUTC =
-    pitchEvt?.refinedReleaseTimeUTC ??
-    pitchEvt?.releaseTimeUTC ??
-    pitchEvt?.ballReleaseTimeUTC ??
-    pitchEvt?.releaseUtc ??
-    null;
 
-  if (!relUTC) return undefined;
-
-  const startUTC =
-    root?.time?.startUTC ??
-    root?.timeline?.startUTC ??
-    root?.meta?.startUTC ??
-    null;
-
-  if (!startUTC) return undefined;
-
-  const relMs = new Date(relUTC).getTime() - new Date(startUTC).getTime();
-  return relMs / 1000;
+function roleLabelFromRole(role: string): string {
+  if (role === "pitcher") return "Pitcher";
+  if (role === "hitter" || role === "batter") return "Hitter";
+  return role ? role.charAt(0).toUpperCase() + role.slice(1) : "Unknown";
 }
-function indexFromTime(frames: { time: number }[], tSec?: number): number | undefined {
-  if (!frames?.length || tSec == null) return undefined;
-  let best = 0, bestErr = Infinity;
-  for (let i = 0; i < frames.length; i++) {
-    const err = Math.abs((frames[i]?.time ?? 0) - tSec);
-    if (err < bestErr) { bestErr = err; best = i; }
-  }
-  return best;
+
+function buildTrackDisplayLabel(t: any, idx: number, roleLabel: string): string {
+  const label = t?.name ?? t?.personId ?? t?.trackId ?? `Track ${idx + 1}`;
+  return `[${roleLabel}] ${label}`;
 }
 
-// ————— Enhanced Foot-Strike —————
-function findFootStrike(frames: { time: number; joints: Record<string, V3> }[], handHint: "R"|"L"|"?") {
-  if (!frames.length) return undefined;
-
-  // Detect lead side
-  let leadSide: "L" | "R";
-  if (handHint === "R") leadSide = "L";
-  else if (handHint === "L") leadSide = "R";
-  else {
-    const mid = frames[Math.floor(frames.length * 0.5)]?.joints ?? {};
-    const rA = (mid["rAnkle"] || (mid as any)["rightAnkle"] || (mid as any)["rHeel"] || (mid as any)["rBigToe"]) as V3 | undefined;
-    const lA = (mid["lAnkle"] || (mid as any)["leftAnkle"]  || (mid as any)["lHeel"] || (mid as any)["lBigToe"]) as V3 | undefined;
-    leadSide = rA && lA ? (rA[0] < lA[0] ? "R" : "L") : rA ? "R" : "L";
-  }
+const lerp3 = (p: V3, q: V3, u: number): V3 => [p[0] + (q[0] - p[0]) * u, p[1] + (q[1] - p[1]) * u, p[2] + (q[2] - p[2]) * u];
 
-  const aKey = leadSide === "R"
-    ? (names: Record<string, V3>) => (names["rAnkle"] || (names as any)["rightAnkle"] || (names as any)["rHeel"] || (names as any)["rBigToe"]) as V3 | undefined
-    : (names: Record<string, V3>) => (names["lAnkle"] || (names as any)["leftAnkle"] || (names as any)["lHeel"] || (names as any)["lBigToe"]) as V3 | undefined;
-
-  // series
-  const Y: number[] = [], X: number[] = [], Z: number[] = [], T: number[] = [];
-  for (let i = 0; i < frames.length; i++) {
-    const p = aKey(frames[i].joints);
-    const lastY = Y.length ? Y[Y.length - 1] : 0;
-    const lastX = X.length ? X[X.length - 1] : 0;
-    const lastZ = Z.length ? Z[Z.length - 1] : 0;
-    Y.push(p ? p[1] : lastY);
-    X.push(p ? p[0] : lastX);
-    Z.push(p ? p[2] : lastZ);
-    T.push(frames[i].time ?? (i * 1 / 120));
-  }
+// Ball position at time t (linear between samples); undefined outside the flight
+function ballPositionAt(ball: ParsedBall | undefined, tSec?: number): V3 | undefined {
+  const at = sampleAt(ball?.samples, tSec);
+  return at && lerp3(at.a.pos, at.b.pos, at.u);
+}
 
-  const Vy = movingAvg(finiteDiff(Y, T), 3);
-  const Vh = movingAvg(X.map((_, i) => Math.hypot((X[i] - (X[i-1] ?? X[i])), (Z[i] - (Z[i-1] ?? Z[i])))/Math.max(1e-6,(T[i]-(T[i-1]??T[i])))), 3);
-
-  // Foot yaw stability proxy
-  const footYaw: number[] = [];
-  for (let i = 0; i < frames.length; i++) {
-    const j = frames[i].joints as Record<string, V3>;
-    const a = aKey(j);
-    const toe = leadSide === "R"
-      ? ((j as any)["rBigToe"] || (j as any)["rightBigToe"] || (j as any)["rHeel"])
-      : ((j as any)["lBigToe"] || (j as any)["leftBigToe"]  || (j as any)["lHeel"]);
-    if (a && toe) {
-      const dir = new THREE.Vector3(toe[0]-a[0], toe[1]-a[1], toe[2]-a[2]);
-      dir.setZ(0);
-      if (dir.lengthSq() > 1e-10) dir.normalize();
-      footYaw.push(Math.atan2(dir.y, dir.x)); // radians
-    } else {
-      footYaw.push(footYaw.length ? footYaw[footYaw.length - 1] : 0);
-    }
-  }
-  const dYaw = movingAvg(finiteDiff(footYaw, T).map(v => Math.abs(v)), 5);
-
-  // Score
-  let bestIdx: number | undefined;
-  let bestScore = Infinity;
-  for (let i = 2; i < Y.length - 2; i++) {
-    const localMin = Y[i] <= Y[i - 1] && Y[i] <= Y[i + 1];
-    if (!localMin) continue;
-    const vy0 = Math.abs(Vy[i]);
-    const speedDrop = (Vh[i - 1] - Vh[i]);
-    const yawStable = dYaw[i];
-    const score = (vy0 * 4.0) + (-speedDrop * 2.0) + (yawStable * 1.5) + (Y[i] * 0.2);
-    if (score < bestScore) {
-      bestScore = score;
-      bestIdx = i;
-    }
-  }
-  return bestIdx;
+// Bat segment at time t (linear between samples); undefined outside the bat samples
+function batSegmentAt(bat: ParsedBat | undefined, tSec?: number): { handle: V3; head: V3 } | undefined {
+  const at = sampleAt(bat?.samples, tSec);
+  return at && { handle: lerp3(at.a.handle, at.b.handle, at.u), head: lerp3(at.a.head, at.b.head, at.u) };
 }
 
-// ————— Enhanced Ball Release —————
-function findBallRelease(frames: { time: number; joints: Record<string, V3> }[], handHint: "R"|"L"|"?", jsonReleaseSec?: number) {
-  if (!frames.length) return undefined;
+// Handle within this distance of the wrists' midpoint is snapped onto the hands
+const BAT_GRIP_SNAP_M = 0.35;
+
+// ---- Scene meshes: unit geometries and keyed materials are made once and shared; clearGroup disposes the rest ----
+const shared = <T extends { userData: any }>(o: T): T => { o.userData.shared = true; return o; };
+const UNIT_SPHERE = shared(new THREE.SphereGeometry(1, 16, 12));
+const UNIT_CYLINDER = shared(new THREE.CylinderGeometry(1, 1, 1, 10));
+const BAT_GEOMETRY = shared(new THREE.CylinderGeometry(0.033, 0.012, 1, 16));
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const JOINT_RADIUS = { core: 0.03, detail: 0.014 };
+
+const materialCache = new Map<string, any>();
+/** One material per key for the life of the page (colour, opacity…), never disposed by clearGroup. */
+function sharedMaterial(key: string, make: () => any): any {
+  let m = materialCache.get(key);
+  if (!m) materialCache.set(key, (m = shared(make())));
+  return m;
+}
 
-  let seedIdx: number | undefined;
-  if (jsonReleaseSec != null) {
-    seedIdx = indexFromTime(frames as any, jsonReleaseSec);
-  }
+/** Empty a scene group, disposing whatever geometry / material was made just for it. */
+function clearGroup(g: THREE.Group) {
+  g.traverse((o: any) => {
+    if (o === g) return;
+    if (o.geometry && !o.geometry.userData.shared) o.geometry.dispose();
+    for (const m of Array.isArray(o.material) ? o.material : o.material ? [o.material] : []) if (!m.userData.shared) m.dispose();
+  });
+  g.clear();
+}
 
-  // Identify throwing side
-  let throwSide: "R" | "L";
-  if (handHint === "R") throwSide = "R";
-  else if (handHint === "L") throwSide = "L";
-  else {
-    const n = frames.length;
-    const s = Math.floor(n * 0.75);
-    let rx = 0, lx = 0, rc = 0, lc = 0;
-    for (let i = s + 1; i < n; i++) {
-      const a = frames[i - 1].joints as Record<string, V3>;
-      const b = frames[i].joints as Record<string, V3>;
-      const r0 = (a["rWrist"] || (a as any)["rightWrist"]) as V3 | undefined;
-      const r1 = (b["rWrist"] || (b as any)["rightWrist"]) as V3 | undefined;
-      const l0 = (a["lWrist"] || (a as any)["leftWrist"]) as V3 | undefined;
-      const l1 = (b["lWrist"] || (b as any)["leftWrist"]) as V3 | undefined;
-      if (r0 && r1) { rx += (r1[0] - r0[0]); rc++; }
-      if (l0 && l1) { lx += (l1[0] - l0[0]); lc++; }
-    }
-    const rdx = rc ? rx / rc : 0;
-    const ldx = lc ? lx / lc : 0;
-    throwSide = (rdx < ldx) ? "R" : "L";
-  }
+function addJoint(group: THREE.Group, p: V3, radius: number, mat: any) {
+  const m = new THREE.Mesh(UNIT_SPHERE, mat);
+  m.scale.setScalar(radius);
+  m.position.set(p[0], p[1], p[2]);
+  group.add(m);
+}
 
-  // Series for wrist forward speed (toward HOME is −X)
-  const wKeyX = (j: Record<string, V3>) => {
-    const w = throwSide === "R"
-      ? (j["rWrist"] || (j as any)["rightWrist"])
-      : (j["lWrist"] || (j as any)["leftWrist"]);
-    return (w as V3 | undefined)?.[0];
-  };
+// Unit cylinder stretched from a to b
+function addSegment(group: THREE.Group, a: V3, b: V3, geom: any, radius: number, mat: any) {
+  const va = new THREE.Vector3(a[0], a[1], a[2]), vb = new THREE.Vector3(b[0], b[1], b[2]);
+  const dir = vb.clone().sub(va);
+  const len = dir.length();
+  if (len < 1e-6) return;
+  const m = new THREE.Mesh(geom, mat);
+  m.scale.set(radius, len, radius);
+  m.quaternion.setFromUnitVectors(Y_AXIS, dir.normalize());
+  m.position.copy(va.add(vb).multiplyScalar(0.5));
+  group.add(m);
+}
 
-  const T: number[] = [];
-  const X: number[] = [];
-  for (let i = 0; i < frames.length; i++) {
-    T.push(frames[i].time ?? (i * 1 / 120));
-    const x = wKeyX(frames[i].joints);
-    X.push(x != null ? x : (X.length ? X[X.length - 1] : 0));
-  }
-  const Vx = movingAvg(finiteDiff(X, T), 3); // forward speed
-
-  // Elbow extension velocity proxy
-  function elbowExtVel(side: "R" | "L") {
-    const ang: number[] = [];
-    for (let i = 0; i < frames.length; i++) {
-      const j = frames[i].joints as Record<string, V3>;
-      const s = side === "R"
-        ? { sh: j["rShoulder"] || (j as any)["rightShoulder"], el: j["rElbow"] || (j as any)["rightElbow"], wr: j["rWrist"] || (j as any)["rightWrist"] }
-        : { sh: j["lShoulder"] || (j as any)["leftShoulder"], el: j["lElbow"] || (j as any)["leftElbow"], wr: j["lWrist"] || (j as any)["leftWrist"] };
-      if (s.sh && s.el && s.wr) {
-        const u = new THREE.Vector3(s.sh[0]-s.el[0], s.sh[1]-s.el[1], s.sh[2]-s.el[2]).normalize();
-        const f = new THREE.Vector3(s.wr[0]-s.el[0], s.wr[1]-s.el[1], s.wr[2]-s.el[2]).normalize();
-        ang.push(THREE.MathUtils.radToDeg(u.angleTo(f)));
-      } else {
-        ang.push(ang.length ? ang[ang.length-1] : 0);
-      }
-    }
-    const d = movingAvg(finiteDiff(ang, T), 3);
-    return d;
-  }
-  const dElbow = elbowExtVel(throwSide);
-
-  // Trunk angular speed proxy
-  const trunkYaw: number[] = [];
-  for (let i = 0; i < frames.length; i++) {
-    const j = frames[i].joints as Record<string, V3>;
-    const lSh = (j["lShoulder"] || (j as any)["leftShoulder"]) as V3 | undefined;
-    const rSh = (j["rShoulder"] || (j as any)["rightShoulder"]) as V3 | undefined;
-    if (lSh && rSh) {
-      const axis = new THREE.Vector3(rSh[0]-lSh[0], rSh[1]-lSh[1], rSh[2]-lSh[2]);
-      trunkYaw.push(yawDeg(HOME_BASE, axis));
-    } else {
-      trunkYaw.push(trunkYaw.length ? trunkYaw[trunkYaw.length-1] : 0);
-    }
-  }
-  const dTrunk = movingAvg(finiteDiff(trunkYaw, T).map(v => Math.abs(v)), 3);
+function addBone(group: THREE.Group, a: V3, b: V3, radius: number, mat: any) {
+  addSegment(group, a, b, UNIT_CYLINDER, radius, mat);
+}
 
-  if (seedIdx == null) {
-    let minV = 1e9, idx = 0;
-    for (let i = 1; i < Vx.length; i++) {
-      if (Vx[i] < minV) { minV = Vx[i]; idx = i; }
-    }
-    seedIdx = idx;
-  }
+/** Tapered bat, handle → head. */
+function addBat(group: THREE.Group, seg: { handle: V3; head: V3 }) {
+  addSegment(group, seg.handle, seg.head, BAT_GEOMETRY, 1,
+    sharedMaterial("bat", () => new THREE.MeshStandardMaterial({ color: 0xd6a461, metalness: 0.05, roughness: 0.7 })));
+}
 
-  const lo = Math.max(1, seedIdx - 20);
-  const hi = Math.min(Vx.length - 2, seedIdx + 20);
-  let best = seedIdx;
-  let bestScore = -Infinity;
-  for (let i = lo; i <= hi; i++) {
-    const score = (-Vx[i]) * 1.0 + (dElbow[i] ?? 0) * 0.8 + (dTrunk[i] ?? 0) * 0.5;
-    if (score > bestScore) { bestScore = score; best = i; }
-  }
-  return best;
+interface SkeletonStyle {
+  bone: any;                               // bone material
+  joint?: (pt: SkeletonPoint) => any;      // joint material; none = the point is not drawn
+  radiusScale?: number;                    // joints and bones
+  skipParts?: BonePart[];
 }
 
-// Handedness fallback
-function detectHandedness(frames: { time: number; joints: Record<string, V3> }[]): "R" | "L" | "?" {
-  if (!frames.length) return "?";
-  const n = frames.length;
-  const start = Math.floor(n * 0.75);
-  let rx = 0, lx = 0, rc = 0, lc = 0;
-  for (let i = start + 1; i < n; i++) {
-    const a = frames[i - 1].joints as Record<string, V3>;
-    const b = frames[i].joints as Record<string, V3>;
-    const r0 = (a["rWrist"] || (a as any)["rightWrist"]) as V3 | undefined;
-    const r1 = (b["rWrist"] || (b as any)["rightWrist"]) as V3 | undefined;
-    const l0 = (a["lWrist"] || (a as any)["leftWrist"]) as V3 | undefined;
-    const l1 = (b["lWrist"] || (b as any)["leftWrist"]) as V3 | undefined;
-    if (r0 && r1) { rx += (r1[0] - r0[0]); rc++; }
-    if (l0 && l1) { lx += (l1[0] - l0[0]); lc++; }
+/** The canonical skeleton of one pose; joints into `group`, bones into `boneGroup` (default the same). */
+function addSkeleton(group: THREE.Group, joints: Record<string, V3>, style: SkeletonStyle, boneGroup = group) {
+  const { points, bones } = buildSkeleton(joints);
+  const k = style.radiusScale ?? 1;
+  for (const pt of points) {
+    const mat = style.joint?.(pt);
+    if (mat) addJoint(group, pt.p, (pt.kind === "core" ? JOINT_RADIUS.core : JOINT_RADIUS.detail) * k, mat);
   }
-  const rdx = rc ? rx / rc : 0;
-  const ldx = lc ? lx / lc : 0;
-  if (rdx < ldx) return "R";
-  if (ldx < rdx) return "L";
-  return "?";
+  for (const b of bones) if (!style.skipParts?.includes(b.part)) addBone(boneGroup, b.a, b.b, BONE_RADIUS[b.part] * k, style.bone);
 }
 
+const standard = (color: number | string, extra: Record<string, any> = {}) =>
+  new THREE.MeshStandardMaterial({ color, metalness: 0.1, roughness: 0.8, ...extra });
+
 // ---- Simple Sparkline (for biomech series) ----
-function Sparkline({ series, idx, label, fmt = (v:number)=>v.toFixed(1), unit="" }: { series: number[]; idx: number; label: string; fmt?: (v:number)=>string; unit?: string }) {
+function Sparkline({ series, idx, label, fmt = (v:number)=>v.toFixed(1), unit="", bands = [], low = [], pair }: { series: number[]; idx: number; label: string; fmt?: (v:number)=>string; unit?: string; bands?: ScrubberBand[]; low?: ScrubberBand[]; pair?: number[] }) {
   const w = 260, h = 60, pad = 6;
-  const vals = series.filter((v)=>Number.isFinite(v));
+  // A compared delivery (already on this track's frames) shares the vertical scale
+  const vals = series.concat(pair ?? []).filter((v)=>Number.isFinite(v));
   const min = vals.length ? Math.min(...vals) : 0;
   const max = vals.length ? Math.max(...vals) : 1;
   const range = (max - min) || 1;
-  const path = [];
+  const path: string[] = [];
   for (let i = 0; i < series.length; i++) {
     const x = pad + (w - 2*pad) * (i / Math.max(1, series.length - 1));
     const y = pad + (h - 2*pad) * (1 - ((series[i] - min) / range));
     path.push(`${i===0 ? 'M' : 'L'}${x},${y}`);
   }
+  const pairPath: string[] = [];
+  (pair ?? []).forEach((v, i) => {
+    if (!Number.isFinite(v)) return;
+    const x = pad + (w - 2*pad) * (i / Math.max(1, series.length - 1));
+    const y = pad + (h - 2*pad) * (1 - ((v - min) / range));
+    pairPath.push(`${pairPath.length && Number.isFinite(pair![i - 1]) ? 'L' : 'M'}${x},${y}`);
+  });
   const cx = pad + (w - 2*pad) * (idx / Math.max(1, series.length - 1));
   const cy = pad + (h - 2*pad) * (1 - (((series[idx] ?? NaN) - min) / range));
   const cur = series[idx];
+  const other = pair?.[idx];
+  const bx = (f: number) => pad + (w - 2*pad) * (f / Math.max(1, series.length - 1));
   return (
     <div style={{display:"grid", gridTemplateColumns:"1fr auto", gap:8, alignItems:"center"}}>
       <div style={{fontSize:12, opacity:0.85}}>{label}</div>
-      <div style={{fontVariantNumeric:"tabular-nums"}}><b>{Number.isFinite(cur)? fmt(cur): "-"}</b>{unit}</div>
+      <div style={{fontVariantNumeric:"tabular-nums"}}>
+        <b>{Number.isFinite(cur)? fmt(cur): "-"}</b>{unit}
+        {pair && <span style={{ color: COMPARE_COLOR }}> / {other != null && Number.isFinite(other) ? fmt(other) : "-"}{unit}</span>}
+      </div>
       <svg width={w} height={h} style={{gridColumn:"1 / span 2", background:"#0b1224", border:"1px solid #1e293b", borderRadius:8}}>
+        {bands.map((b, i) => (
+          <rect key={i} x={bx(b.start)} y={pad} width={Math.max(1, bx(b.end) - bx(b.start))} height={h - 2*pad} fill={b.color} opacity={0.15}>
+            <title>{b.label}</title>
+          </rect>
+        ))}
+        {low.map((b, i) => (
+          <rect key={`q${i}`} x={bx(b.start)} y={h - pad - 3} width={Math.max(1, bx(b.end) - bx(b.start))} height={3} fill={b.color}>
+            <title>{b.label}</title>
+          </rect>
+        ))}
+        {pairPath.length > 0 && <path d={pairPath.join(" ")} fill="none" stroke={COMPARE_COLOR} strokeWidth="1.5" opacity={0.8} />}
         <path d={path.join(" ")} fill="none" stroke="#93c5fd" strokeWidth="1.5" />
+        {low.map((b, i) => (
+          <path key={`qp${i}`} d={path.slice(b.start, b.end + 1).join(" ").replace(/^L/, "M")} fill="none" stroke={b.color} strokeWidth="1.5" strokeDasharray="3,2" />
+        ))}
         <line x1={cx} x2={cx} y1={pad} y2={h-pad} stroke="#ef4444" strokeDasharray="2,2" />
         {Number.isFinite(cur) && <circle cx={cx} cy={cy} r="3" fill="#ef4444" />}
       </svg>
@@ -452,6 +282,19 @@ function Sparkline({ series, idx, label, fmt = (v:number)=>v.toFixed(1), unit=""
   );
 }
 
+// ---- Constant metric (label / value+unit, tooltip with JSON source & conversion) ----
+function MetricTile({ label, m, digits = 1 }: { label: string; m: MetricValue | null | undefined; digits?: number }) {
+  return (
+    <>
+      <div><b>{label}</b></div>
+      <div title={describeMetric(m)} style={{ cursor: "help", fontVariantNumeric: "tabular-nums" }}>
+        {formatMetric(m, digits)}
+        {m?.unitInferred && <span style={{ color: "#fbbf24" }} title="Unit inferred from magnitude"> *</span>}
+      </div>
+    </>
+  );
+}
+
 // ========== Component ==========
 export default function HawkEyeVisualizer3D() {
   const canvasHost = useRef<HTMLDivElement | null>(null);
@@ -463,34 +306,59 @@ export default function HawkEyeVisualizer3D() {
   const skeletonRootRef = useRef<THREE.Group>(new THREE.Group());
   const jointsGroup = useRef<THREE.Group>(new THREE.Group());
   const bonesGroup = useRef<THREE.Group>(new THREE.Group());
+  const ballGroup = useRef<THREE.Group>(new THREE.Group());
+  const batGroup = useRef<THREE.Group>(new THREE.Group());
+  const comGroup = useRef<THREE.Group>(new THREE.Group());
+  const trailGroup = useRef<THREE.Group>(new THREE.Group());
+  const ghostGroup = useRef<THREE.Group>(new THREE.Group());
+  const sceneGroup = useRef<THREE.Group>(new THREE.Group());
+  const fieldGroup = useRef<THREE.Group>(new THREE.Group());
+  const compareGroup = useRef<THREE.Group>(new THREE.Group());
   jointsGroup.current.name = "jointsGroup";
   bonesGroup.current.name = "bonesGroup";
+  ballGroup.current.name = "ballGroup";
+  batGroup.current.name = "batGroup";
+  comGroup.current.name = "comGroup";
+  trailGroup.current.name = "trailGroup";
+  ghostGroup.current.name = "ghostGroup";
+  sceneGroup.current.name = "sceneGroup";
+  fieldGroup.current.name = "fieldGroup";
+  compareGroup.current.name = "compareGroup";
   skeletonRootRef.current.name = "skeletonRoot";
 
   const lockedQuatRef = useRef<THREE.Quaternion | null>(null);
   const prevQuatRef = useRef<THREE.Quaternion | null>(null);
-  const prevJointMapRef = useRef<Record<string, THREE.Vector3>>({});
-  const prevTrunkDegRef = useRef<number | null>(null);
 
   const [tracks, setTracks] = useState<any[]>([]);
   const [ti, setTi] = useState(0);
   const [fi, setFi] = useState(0);
-  const [fsIdx, setFsIdx] = useState<number | null>(FS_DEFAULT);
-  const [brIdx, setBrIdx] = useState<number | null>(BR_DEFAULT);
 
   const [debug, setDebug] = useState("");
+  const [fileReports, setFileReports] = useState<FileReport[]>([]);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress[]>([]);
+  const pipelineRef = useRef(createParsePipeline());
+  useEffect(() => () => pipelineRef.current.dispose(), []);
   const [bodyHeight, setBodyHeight] = useState<number | "">("");
+  const [bodyMass, setBodyMass] = useState<number | "">("");   // kg, for COM momentum
   const [showOverlay, setShowOverlay] = useState(false);
   const [flipHome, setFlipHome] = useState(false);
   const [flipHAbd, setFlipHAbd] = useState(false);
+  const [fullSkeleton, setFullSkeleton] = useState(true);
+  // Scene mode: every person in the selected track's file, in the file's field coordinates
+  const [sceneMode, setSceneMode] = useState(false);
+  const [showField, setShowField] = useState(true);
+  // Overlay: a second delivery of the same role, matched on one event
+  const [compareTi, setCompareTi] = useState<number | null>(null);
+  const [compareEvent, setCompareEvent] = useState<CompareEvent>("fs");
+  const [compareSpace, setCompareSpace] = useState<CompareSpace>("pelvis");
 
   const [hands, setHands] = useState<Record<number, "R"|"L"|"?">>({});
 
-  // --- Pitch metrics (constant-per-pitch display) ---
-  const [pitchVelocity, setPitchVelocity] = useState<number | null>(null);
-  const [pitchIVB, setPitchIVB] = useState<number | null>(null);
-  const [pitchHB, setPitchHB] = useState<number | null>(null);
-  const [pitchExt, setPitchExt] = useState<number | null>(null);
+  // Joint-name profiles: custom ones and per-file choices persist in localStorage
+  const [customProfiles, setCustomProfiles] = useState<JointProfile[]>(loadCustomProfiles);
+  const [profileChoices, setProfileChoices] = useState<Record<string, string>>(loadProfileChoices);
+  const profiles = useMemo(() => [...BUILTIN_PROFILES, ...customProfiles], [customProfiles]);
+
 
   useEffect(() => {
     const host = canvasHost.current!;
@@ -505,6 +373,14 @@ export default function HawkEyeVisualizer3D() {
     scene.add(skeletonRootRef.current);
     skeletonRootRef.current.add(jointsGroup.current);
     skeletonRootRef.current.add(bonesGroup.current);
+    skeletonRootRef.current.add(ballGroup.current);
+    skeletonRootRef.current.add(batGroup.current);
+    skeletonRootRef.current.add(comGroup.current);
+    skeletonRootRef.current.add(trailGroup.current);
+    skeletonRootRef.current.add(ghostGroup.current);
+    skeletonRootRef.current.add(sceneGroup.current);
+    skeletonRootRef.current.add(fieldGroup.current);
+    skeletonRootRef.current.add(compareGroup.current);
 
     const camera = new THREE.PerspectiveCamera(45, host.clientWidth / host.clientHeight, 0.01, 1000);
     camera.position.set(3.0, 1.8, 4.0);
@@ -552,8 +428,12 @@ export default function HawkEyeVisualizer3D() {
     scene.traverse((obj) => {
       const pn = obj.parent?.name || "";
       const isSkeleton =
-        pn === "jointsGroup" || pn === "bonesGroup" ||
-        obj.name === "jointsGroup" || obj.name === "bonesGroup" || obj.name === "skeletonRoot";
+        pn === "jointsGroup" || pn === "bonesGroup" || pn === "ballGroup" || pn === "batGroup" || pn === "comGroup" ||
+        pn === "trailGroup" || pn === "ghostGroup" || pn === "sceneGroup" || pn === "fieldGroup" || pn === "compareGroup" ||
+        obj.name === "jointsGroup" || obj.name === "bonesGroup" || obj.name === "ballGroup" || obj.name === "batGroup" ||
+        obj.name === "comGroup" || obj.name === "trailGroup" || obj.name === "ghostGroup" || obj.name === "sceneGroup" ||
+        obj.name === "fieldGroup" || obj.name === "compareGroup" ||
+        obj.name === "skeletonRoot";
       const isGrid = obj.name === "gridHelper" || obj.type === "GridHelper";
       const isAxes = obj.type === "AxesHelper" || (obj.name || "").toLowerCase().includes("axes");
       const isLine = (obj as any).isLine || (obj as any).isLineSegments;
@@ -563,113 +443,50 @@ export default function HawkEyeVisualizer3D() {
     toRemove.forEach((o) => o.parent?.remove(o));
   }
 
-  // Read files, parse tracks, attach handedness & (optional) pitch metrics
-// Read files, parse tracks, attach handedness & (optional) pitch metrics
+  // Read files in the parse worker, then normalize roles & attach handedness on the UI side
 async function onFiles(fs: FileList | null) {
-  if (!fs) return;
-
-  const all: any[] = [];
-
-  for (const f of Array.from(fs)) {
-    try {
-      const text = await f.text();
-      const obj = JSON.parse(text);
-
-      // ===== Debug taps so you can see what shape this file has =====
-      try {
-        // eslint-disable-next-line no-console
-        console.log("RAW JSON LOADED:", obj);
-        // eslint-disable-next-line no-console
-        console.log("root.samples:", obj?.samples);
-        // eslint-disable-next-line no-console
-        console.log("root.samples?.people:", obj?.samples?.people);
-        // eslint-disable-next-line no-console
-        console.log("root.people:", obj?.people);
-        // eslint-disable-next-line no-console
-        console.log("root.tracks:", obj?.tracks);
-      } catch {}
-
-      // ===== Your existing parser (kept) =====
-      const parsed = parseHawkEyeJson(obj);
-
-      // ===== Pitcher/Hitter names (optional – doesn’t break if absent) =====
-      let pitcherName: string | undefined;
-      let batterName: string | undefined;
-      try {
-        const players =
-          (Array.isArray((obj as any).players) && (obj as any).players) ||
-          (Array.isArray((obj as any).details?.players) && (obj as any).details.players) ||
-          null;
-
-        if (players) {
-          const pit =
-            players.find((p: any) => (p?.role?.name || "").toLowerCase() === "pitcher") ||
-            players.find((p: any) => ["p"].includes((p?.role?.abbr || "").toLowerCase()));
-          const bat =
-            players.find((p: any) => (p?.role?.name || "").toLowerCase() === "batter") ||
-            players.find((p: any) => ["hitter", "b"].includes((p?.role?.name || "").toLowerCase()));
-
-          pitcherName = pit?.name || pit?.fullName || pit?.displayName;
-          batterName  = bat?.name || bat?.fullName || bat?.displayName;
-        }
-      } catch {}
-
-      // ===== Lift pitch metrics if the file contains them somewhere =====
-      const pitch = obj?.pitch || obj?.details?.pitch || obj?.metrics || obj?.trackman || {};
-      const pitchMeta = {
-        velocity:        pitch.releaseSpeed ?? pitch.releaseVelocity ?? pitch.pitchVelocity ?? null, // mph or m/s depending vendor
-        ivb:             pitch.inducedVerticalBreak ?? pitch.ivb ?? null,                            // usually inches
-        hb:              pitch.horizontalBreak ?? pitch.hBreak ?? null,                              // inches (L/R sign by vendor)
-        extension:       pitch.extension ?? pitch.releaseExtension ?? null,                          // ft or m
-      };
-
-      // If your JSON also stores per-frame/ball arrays, attach them so we can fill series:
-      const ball = obj?.ball || obj?.details?.ball || null;
-
-      // ===== Attach per-track metadata without mutating your parser’s structure =====
-      if (Array.isArray(parsed)) {
-        for (const t of parsed as any[]) {
-          // keep existing hand hint from elsewhere if you already place it
-          (t as any)._handFromJson = (t as any)._handFromJson ?? "?";
-          (t as any)._releaseSeconds =
-            (obj?.events ?? obj?.details?.events ?? [])
-              ?.find?.((e: any) => String(e?.type || "").toUpperCase() === "PITCH")
-              ? undefined // your extractReleaseSeconds routine will run later if you use it
-              : undefined;
-
-          // names (if you want to display them later)
-          (t as any)._pitcherName = pitcherName;
-          (t as any)._batterName  = batterName;
-
-          // constant pitch-meta (for the metric tiles — DOES NOT animate)
-          (t as any).pitchMeta = pitchMeta;
-
-          // optional ball arrays for graph fill (if present)
-          if (ball && Array.isArray(ball.times)) {
-            (t as any).ballTimes = ball.times;
-            (t as any).ballV     = ball.velocity ?? null;
-            (t as any).ballIVB   = ball.ivb ?? null;
-            (t as any).ballHB    = ball.hb ?? null;
-            (t as any).ballExt   = ball.extension ?? null;
-          }
-        }
-      }
+  if (!fs || !fs.length) return;
+
+  const wire: WireTrack[] = [];
+  const reports: FileReport[] = [];
+  setLoadProgress([]);
+  setDebug(`Loading ${fs.length} file(s)…`);
+
+  const completed = await pipelineRef.current.load(Array.from(fs), {
+    onProgress: (p) => setLoadProgress((prev) => {
+      const next = prev.slice();
+      next[p.index] = p;
+      return next;
+    }),
+    onFile: (file, parsed, report) => {
+      reports.push({
+        file,
+        report,
+        tracks: parsed.filter((t) => isPlayableRole(normalizeRoleForTrack(t.role))).length,
+      });
+      wire.push(...parsed.map((t) => ({ ...t, _file: file })));
+    },
+    onFileError: (file, message) => {
+      reports.push({ file, tracks: 0, error: message });
+    },
+  });
 
-      // ===== Important: ensure we push all parsed tracks =====
-      all.push(...parsed);
-    } catch (e: any) {
-      setDebug(`Parse error in ${f.name}: ${String(e?.message || e)}`);
-    }
+  setFileReports(reports);
+  setLoadProgress([]);
+  if (!completed) {
+    setDebug("Load cancelled — previous tracks kept.");
+    return;
   }
 
+  // Frames decode lazily (per joint profile) from `packed`, which also feeds series requests
+  const all: any[] = wire.slice();
+
   all.forEach((t) => {
     (t as any).role = normalizeRoleForTrack((t as any).role);
   });
 
   // Your visualizer only wants pitcher/hitter roles
-  const playable = all.filter((t) =>
-    ["pitcher", "hitter", "batter"].includes(String(t.role || "").toLowerCase())
-  );
+  const playable = all.filter((t) => isPlayableRole(String(t.role || "").toLowerCase()));
 
   const normalizedTracks = playable.map((t, idx) => {
     const role = normalizeRoleForTrack((t as any).role);
@@ -688,15 +505,15 @@ async function onFiles(fs: FileList | null) {
   });
 
   if (!playable.length) {
-    setDebug("No tracks found (expected samples.people[].joints with role pitcher|hitter).");
+    setDebug("No pitcher/hitter tracks found — see file diagnostics.");
     setTracks([]);
     return;
   }
 
-  // Derive throwing/batting hand — keep your previous logic
+  // Derive throwing/batting hand — auto-detection ran in the worker
   const hs: Record<number, "R" | "L" | "?"> = {};
   normalizedTracks.forEach((t: any, i: number) => {
-    const auto = detectHandedness(t.frames || []);
+    const auto = t._autoHand ?? "?";
     const metaHand = (t.handedness || t.hand || t.pitchHand || t.bats || "").toString().toUpperCase();
     const meta = metaHand.startsWith("R") ? "R" : metaHand.startsWith("L") ? "L" : "?";
     hs[i] = auto !== "?" ? auto : meta;
@@ -709,81 +526,238 @@ async function onFiles(fs: FileList | null) {
   setDebug(`Loaded ${playable.length} track(s).`);
   }
 
-  const frames = useMemo(() => tracks[ti]?.frames ?? [], [tracks, ti]);
-  const rawJ = useMemo(() => frames[fi]?.joints ?? {}, [frames, fi]);
+  // Joint profile for the current track's file: user choice, else the one the worker auto-selected
+  const trackFile: string | undefined = tracks[ti]?._file;
+  const profileId: string = (trackFile && profileChoices[trackFile]) || tracks[ti]?._profileId || BUILTIN_PROFILES[0].id;
+  const jointRes = useMemo(() => {
+    const names: string[] = tracks[ti]?.packed?.jointNames ?? [];
+    const profile = profiles.find((p) => p.id === profileId) ?? autoSelectProfile(names, profiles);
+    return resolveProfile(profile, names);
+  }, [tracks, ti, profiles, profileId]);
+
+  // A failed worker step leaves the view on the stage before it (raw → cleaned → filtered) and says why
+  const computeFailed = (what: string) => (err: unknown) => setDebug(`${what} failed: ${err instanceof Error ? err.message : String(err)}`);
+
+  // Clean-up (worker): spikes / off-length bones dropped, short gaps spline-filled, touched samples flagged
+  const rawPacked: PackedFrames | undefined = tracks[ti]?.packed;
+  const [cleaned, setCleaned] = useState<{ src: PackedFrames; joints: JointResolution; packed: PackedFrames; report: QualityReport } | null>(null);
+  useEffect(() => {
+    if (!rawPacked) { setCleaned(null); return; }
+    let live = true;
+    pipelineRef.current.clean(rawPacked, jointRes)
+      .then((c) => { if (live) setCleaned({ src: rawPacked, joints: jointRes, ...c }); })
+      .catch(computeFailed("Clean-up"));
+    return () => { live = false; };
+  }, [rawPacked, jointRes]);
+  const cleanResult = cleaned && cleaned.src === rawPacked && cleaned.joints === jointRes ? cleaned : null;
+  const cleanPacked = cleanResult?.packed;
+  const quality = cleanResult?.report;
+  // Frames whose key joints were reconstructed, thrown out or are missing: flagged on the scrubber and sparklines
+  const lowConfidence = useMemo<ScrubberBand[]>(() => (quality ? lowConfidenceRuns(quality, jointRes) : []), [quality, jointRes]);
+
+  // Zero-lag low-pass of the cleaned track (worker), applied once; the raw frames stay for comparison
+  const [filterSettings, setFilterSettings] = useState<FilterSettings>(loadFilterSettings);
+  const [filtered, setFiltered] = useState<{ src: PackedFrames; packed: PackedFrames } | null>(null);
+  useEffect(() => {
+    if (!cleanPacked || !filterSettings.enabled) { setFiltered(null); return; }
+    let live = true;
+    pipelineRef.current.filter(cleanPacked, jointRes, filterSettings)
+      .then((f) => { if (live) setFiltered({ src: cleanPacked, packed: f }); })
+      .catch(computeFailed("Filtering"));
+    return () => { live = false; };
+  }, [cleanPacked, jointRes, filterSettings]);
+  function updateFilterSettings(next: FilterSettings) {
+    setFilterSettings(next);
+    saveFilterSettings(next);
+  }
+  const smoothPacked = (filterSettings.enabled && filtered && filtered.src === cleanPacked ? filtered.packed : cleanPacked) ?? rawPacked;
+
+  // Segment lengths calibrated on the smoothed track; rigid mode holds the limb segments at them
+  const [rigidSegments, setRigidSegments] = useState(false);
+  const calibration = useMemo(() => (smoothPacked ? calibrateSegments(smoothPacked, jointRes) : null), [smoothPacked, jointRes]);
+  const activePacked = useMemo(
+    () => (rigidSegments && smoothPacked && calibration ? constrainSegments(smoothPacked, calibration, jointRes) : smoothPacked),
+    [rigidSegments, smoothPacked, calibration, jointRes],
+  );
+  // Height for stride %: typed in, else from the segment lengths
+  const heightM: number | "" = typeof bodyHeight === "number" && bodyHeight > 0 ? bodyHeight : calibration?.height ?? "";
+
+  const frames = useMemo(() => (activePacked ? unpackFrames(activePacked, jointRes) : []), [activePacked, jointRes]);
+  const groundUp = useMemo(() => groundNormalOf(frames), [frames]);
+  const rawFrames = useMemo(() => (rawPacked ? unpackFrames(rawPacked, jointRes) : []), [rawPacked, jointRes]);
 
-  // When track changes, also update pitch constants & keep FS/BR fixed
+  // Another track, read with its own file's joint profile
+  const jointsFor = (t: any) => {
+    const id = (t._file && profileChoices[t._file]) || t._profileId || BUILTIN_PROFILES[0].id;
+    return resolveProfile(profiles.find((p) => p.id === id) ?? autoSelectProfile(t.packed.jointNames, profiles), t.packed.jointNames);
+  };
+
+  // Scene mode: the file's other people, cleaned and filtered like the selected track
+  const sceneMates: number[] = useMemo(
+    () => (trackFile ? tracks.map((t: any, i: number) => (i !== ti && t._file === trackFile ? i : -1)).filter((i: number) => i >= 0) : []),
+    [tracks, ti, trackFile],
+  );
+  const [companions, setCompanions] = useState<{ index: number; role: string; frames: TrackFrame[] }[]>([]);
   useEffect(() => {
-    if (!tracks.length) return;
-    const pm = (tracks[ti]?.pitchMeta) || {};
-    setPitchVelocity(pm.velocity ?? null);
-    setPitchIVB(pm.ivb ?? null);
-    setPitchHB(pm.hb ?? null);
-    setPitchExt(pm.extension ?? null);
-    setFsIdx(FS_DEFAULT);
-    setBrIdx(BR_DEFAULT);
-  }, [ti, tracks.length]);
-
-  const frameJoints = useMemo(() => {
-    const out: Record<string, V3> = {};
-    const prev = prevJointMapRef.current;
-    for (const [k, p] of Object.entries(rawJ as Record<string, V3>)) {
-      const pv = prev[k];
-      const cv = new THREE.Vector3(p[0], p[1], p[2]);
-      if (pv) {
-        pv.multiplyScalar(1 - SMOOTH_ALPHA).addScaledVector(cv, SMOOTH_ALPHA);
-        out[k] = [pv.x, pv.y, pv.z];
-      } else {
-        prev[k] = cv.clone();
-        out[k] = [cv.x, cv.y, cv.z];
+    if (!sceneMode || !sceneMates.length) { setCompanions([]); return; }
+    let live = true;
+    // A person whose track fails to process is left out of the scene
+    Promise.all(sceneMates.map(async (i) => {
+      const t = tracks[i];
+      const res = jointsFor(t);
+      try {
+        const { packed: clean } = await pipelineRef.current.clean(t.packed, res);
+        const packed = filterSettings.enabled ? await pipelineRef.current.filter(clean, res, filterSettings) : clean;
+        return { index: i, role: String(t.role ?? ""), frames: unpackFrames(packed, res) };
+      } catch (err) {
+        if (live) computeFailed(`Scene track ${t.name ?? i + 1}`)(err);
+        return null;
       }
-    }
-    prevJointMapRef.current = Object.fromEntries(
-      Object.entries(out).map(([k, v]) => [k, new THREE.Vector3(v[0], v[1], v[2])])
-    );
-    return out;
-  }, [rawJ]);
+    })).then((c) => { if (live) setCompanions(c.filter((x): x is NonNullable<typeof x> => x != null)); });
+    return () => { live = false; };
+  }, [sceneMode, sceneMates, tracks, profiles, profileChoices, filterSettings]);
+
+  function selectProfile(id: string) {
+    if (!trackFile) return;
+    const next = { ...profileChoices, [trackFile]: id };
+    setProfileChoices(next);
+    saveProfileChoices(next);
+    // Handedness came from the worker's auto profile; redo it for this file's tracks under the new names
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setHands((prev) => {
+      const hs = { ...prev };
+      tracks.forEach((t: any, i: number) => {
+        if (t._file !== trackFile) return;
+        const h = detectHandedness(unpackFrames(t.packed, resolveProfile(profile, t.packed.jointNames)));
+        if (h !== "?") hs[i] = h;
+      });
+      return hs;
+    });
+  }
+
+  function updateCustomProfiles(next: JointProfile[]) {
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+  }
+  const frameJoints = useMemo(() => frames[fi]?.joints ?? {}, [frames, fi]);
+
+  // --- Event timeline → frame indices (events outside this track's frames get no tick) ---
+  const eventMarks = useMemo<ScrubberMark[]>(() => {
+    const events: TimelineEvent[] = tracks[ti]?.events ?? [];
+    if (!frames.length) return [];
+    const slack = tracks[ti]?.timing?.medianDt ?? 0;
+    const t0 = frames[0].time - slack, t1 = frames[frames.length - 1].time + slack;
+    return events
+      .filter((e) => e.time >= t0 && e.time <= t1)
+      .map((e) => ({
+        frame: frameAtTime(frames, e.time),
+        label: e.label,
+        kind: e.kind,
+        title: `${e.label} (${e.rawType || "event"}) · t=${e.time.toFixed(3)} s\nSource: ${e.source}`,
+      }));
+  }, [tracks, ti, frames]);
+
+  // --- Pitch / hit metrics (constant-per-pitch display, unit + provenance per value) ---
+  const pitchMetrics = tracks[ti]?.pitchMetrics;
+  const hitMetrics = tracks[ti]?.hitMetrics;
+  // Hitter tracks switch the sidebar to swing phases and hitting charts
+  const hitting = tracks[ti]?.role === "hitter";
+
+  // --- Foot-strike / ball-release: detected per track, analyst overrides saved per file + pitch ---
+  const detections = useMemo(() => {
+    const t = tracks[ti];
+    if (!t || !frames.length) return { fs: undefined, br: undefined };
+    const hand = hands[ti] ?? "?";
+    return {
+      fs: t.role !== "hitter" ? findFootStrike(frames, hand, t.fps) : undefined,
+      br: t.role === "pitcher" ? findBallRelease(frames, hand, t.fps, t._releaseSeconds) : undefined,
+    };
+  }, [tracks, ti, frames, hands]);
+
+  const [eventOverrides, setEventOverrides] = useState<Record<string, EventOverride>>(loadEventOverrides);
+  const ovKey = tracks[ti] ? overrideKey(trackFile ?? "", tracks[ti]._pitchId, tracks[ti].role, String(tracks[ti].personId ?? ti)) : "";
+  const override = eventOverrides[ovKey] ?? {};
+  const fsIdx: number | null = (override.fs != null && frames.length ? frameAtTime(frames, override.fs) : detections.fs?.index) ?? null;
+  const brIdx: number | null = (override.br != null && frames.length ? frameAtTime(frames, override.br) : detections.br?.index) ?? null;
+
+  function setOverride(which: "fs" | "br", frame: number | null) {
+    if (!ovKey) return;
+    const cur = { ...eventOverrides[ovKey] };
+    if (frame == null || !frames[frame]) delete cur[which];
+    else cur[which] = frames[frame].time;
+    const next = { ...eventOverrides };
+    if (cur.fs == null && cur.br == null) delete next[ovKey];
+    else next[ovKey] = cur;
+    setEventOverrides(next);
+    saveEventOverrides(next);
+  }
+
+  const pct = (d?: Detection) => (d ? `${Math.round(d.confidence * 100)}%` : "-");
+  // A keyframe sitting on reconstructed / missing data gets a warning next to its confidence
+  const fsLow = fsIdx != null ? runAt(lowConfidence, fsIdx) : undefined;
+  const brLow = brIdx != null ? runAt(lowConfidence, brIdx) : undefined;
+  // --- Delivery phases between keyframes anchored on the FS/BR above (pitchers only) ---
+  const phases = useMemo(() => {
+    const t = tracks[ti];
+    if (!t || t.role !== "pitcher" || !frames.length) return null;
+    return segmentPitch(frames, hands[ti] ?? "?", t.fps, { footStrike: fsIdx ?? undefined, release: brIdx ?? undefined }, groundUp);
+  }, [tracks, ti, frames, hands, fsIdx, brIdx, groundUp]);
+
+  const scrubberMarks = useMemo<ScrubberMark[]>(() => {
+    const marks = eventMarks.slice();
+    if (fsIdx != null) marks.push({
+      id: "fs", draggable: true, frame: fsIdx, kind: "footStrike",
+      label: override.fs != null ? "FS ✎" : "FS",
+      title: (override.fs != null ? "Foot strike (manual)" : `Foot strike (detected, confidence ${pct(detections.fs)})`)
+        + (fsLow ? `\n${fsLow.label}` : ""),
+    });
+    if (brIdx != null) marks.push({
+      id: "br", draggable: true, frame: brIdx, kind: "release",
+      label: override.br != null ? "BR ✎" : "BR",
+      title: (override.br != null ? "Ball release (manual)"
+        : `Ball release (detected${detections.br?.seeded ? " around JSON release" : ""}, confidence ${pct(detections.br)})`)
+        + (brLow ? `\n${brLow.label}` : ""),
+    });
+    return marks;
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventMarks, fsIdx, brIdx, override.fs, override.br, detections, fsLow, brLow]);
+
 
   // ------- per-frame metric (current) -------
   const metrics = useMemo(() => {
     if (!frames.length) return null as any;
     const J = frameJoints as Record<string, V3>;
 
-    const get = (name: string): V3 | undefined => {
-      const want = name.replace(/[^a-z]/gi, "").toLowerCase();
-      for (const k of Object.keys(J)) if (k.replace(/[^a-z]/gi, "").toLowerCase() === want) return J[k];
-      return undefined;
-    };
-
-    // Key joints
-    const lSh = get("lShoulder") || (J as any)["leftShoulder"];
-    const rSh = get("rShoulder") || (J as any)["rightShoulder"];
-    const lEl = get("lElbow") || (J as any)["leftElbow"];
-    const rEl = get("rElbow") || (J as any)["rightElbow"];
-    const lW  = get("lWrist") || (J as any)["leftWrist"];
-    const rW  = get("rWrist") || (J as any)["rightWrist"];
-    const lHip = get("lHip") || (J as any)["leftHip"];
-    const rHip = get("rHip") || (J as any)["rightHip"];
-    const lKn  = get("lKnee") || (J as any)["leftKnee"];
-    const rKn  = get("rKnee") || (J as any)["rightKnee"];
-    const lAn  = get("lAnkle") || (J as any)["leftAnkle"] || (J as any)["lHeel"] || (J as any)["leftHeel"] || (J as any)["lBigToe"] || (J as any)["leftBigToe"];
-    const rAn  = get("rAnkle") || (J as any)["rightAnkle"] || (J as any)["rHeel"] || (J as any)["rightHeel"] || (J as any)["rBigToe"] || (J as any)["rightBigToe"];
-
-    const pelvisRaw = get("midHip") || get("pelvis") || (J as any)["hipCenter"] || (J as any)["pelvisCenter"];
+    // Key joints (canonical names — the track's joint profile already resolved vendor names)
+    const lSh = J["lShoulder"];
+    const rSh = J["rShoulder"];
+    const lEl = J["lElbow"];
+    const rEl = J["rElbow"];
+    const lW  = J["lWrist"];
+    const rW  = J["rWrist"];
+    const lHip = J["lHip"];
+    const rHip = J["rHip"];
+    const lKn  = J["lKnee"];
+    const rKn  = J["rKnee"];
+    const lAn  = J["lAnkle"];
+    const rAn  = J["rAnkle"];
+
+    const pelvisRaw = J["pelvis"];
     const pelvis: V3 | undefined = pelvisRaw || (lHip && rHip ? ([(lHip[0]+rHip[0])/2, (lHip[1]+rHip[1])/2, (lHip[2]+rHip[2])/2] as V3) : undefined);
 
-    const chestRaw = get("chest") || (J as any)["midShoulder"] || (J as any)["upperChest"] || (J as any)["sternum"] || get("neck") || (J as any)["c7"];
+    const chestRaw = J["chest"] || J["neck"];
     const chest: V3 | undefined = chestRaw || (lSh && rSh ? ([(lSh[0]+rSh[0])/2, (lSh[1]+rSh[1])/2, (lSh[2]+rSh[2])/2] as V3) : undefined);
 
     // Height for stride%
-    const head = get("head") || get("nose") || (J as any)["topHead"];
+    const head = J["head"];
     let H = 1.0;
     if (head && (lAn || rAn)) {
       const hv = new THREE.Vector3(...head);
       const av = lAn ? new THREE.Vector3(...lAn) : new THREE.Vector3(...(rAn as V3));
       H = hv.distanceTo(av);
     }
-    if (typeof bodyHeight === "number" && bodyHeight > 0) H = bodyHeight;
+    if (typeof heightM === "number" && heightM > 0) H = heightM;
 
     // Stride
     let stride: number | undefined;
@@ -797,21 +771,8 @@ async function onFiles(fs: FileList | null) {
     const hipRotDeg = hipVec ? yawDeg(homeVec, hipVec) : undefined;
 
     // Local body basis
-    const T = (() => {
-      if (pelvis && chest) {
-        const t = new THREE.Vector3(chest[0]-pelvis[0], chest[1]-pelvis[1], chest[2]-pelvis[2]);
-        if (t.lengthSq() > 1e-10) return t.normalize();
-      }
-      return new THREE.Vector3(0,1,0);
-    })();
-    const R = (() => {
-      if (lSh && rSh) {
-        const r = new THREE.Vector3(rSh[0]-lSh[0], rSh[1]-lSh[1], rSh[2]-lSh[2]);
-        if (r.lengthSq() > 1e-10) return r.normalize();
-      }
-      const tmp = Math.abs(T.y) < 0.9 ? new THREE.Vector3(0,1,0) : new THREE.Vector3(1,0,0);
-      return tmp.clone().sub(T.clone().multiplyScalar(tmp.dot(T))).normalize();
-    })();
+    const basis = thoraxBasis(J);
+    const { T, R } = basis;
     let F = new THREE.Vector3().crossVectors(R, T);
     if (F.lengthSq() < 1e-9) {
       F = homeVec.clone().sub(T.clone().multiplyScalar(homeVec.dot(T)));
@@ -824,26 +785,23 @@ async function onFiles(fs: FileList | null) {
       const rShV = new THREE.Vector3(...rSh);
       const lShV = new THREE.Vector3(...lSh);
       const shoulderAxis = rShV.clone().sub(lShV);
-      const raw = wrap180(yawDeg(homeVec, shoulderAxis));
-      const prev = prevTrunkDegRef.current;
-      const unwrapped = prev == null ? raw : unwrapToPrev(raw, prev);
-      const smoothed = prev == null ? unwrapped : (0.7 * prev + 0.3 * unwrapped);
-      prevTrunkDegRef.current = smoothed;
-      trunkRotDeg = wrap180(smoothed);
+      trunkRotDeg = wrap180(yawDeg(homeVec, shoulderAxis));
     }
 
     const hipMinusTrunk = (hipRotDeg != null && trunkRotDeg != null)
       ? wrap180(hipRotDeg - trunkRotDeg)
       : undefined;
 
-    // Upper arms
-    const rUpper = (rSh && rEl) ? new THREE.Vector3(rEl[0] - rSh[0], rEl[1] - rSh[1], rEl[2] - rSh[2]) : null;
-    const lUpper = (lSh && lEl) ? new THREE.Vector3(lEl[0] - lSh[0], lEl[1] - lSh[1], lEl[2] - lSh[2]) : null;
-
-    // Shoulder abduction: angle to torso-up axis
-    let rAbd: number | undefined, lAbd: number | undefined;
-    if (rUpper && rUpper.lengthSq() > 1e-10) rAbd = fold90(THREE.MathUtils.radToDeg(rUpper.clone().normalize().angleTo(T)));
-    if (lUpper && lUpper.lengthSq() > 1e-10) lAbd = fold90(THREE.MathUtils.radToDeg(lUpper.clone().normalize().angleTo(T)));
+    // Shoulders: ISB thorax / humerus angles; horizontal abduction and ER for the throwing arm
+    const hand = hands[ti] || "?";
+    const rShoulderA = shoulderAngles(J, "R", basis);
+    const lShoulderA = shoulderAngles(J, "L", basis);
+    const rAbd = rShoulderA?.abduction;
+    const lAbd = lShoulderA?.abduction;
+    const armA = hand === "L" ? lShoulderA : rShoulderA;
+    const hAbdRaw = armA?.horizontalAbduction;
+    const shoulderHAbd = hAbdRaw != null ? (flipHAbd ? -hAbdRaw : hAbdRaw) : undefined;
+    const shoulderER = armA?.externalRotation;
 
     // Knee flexion
     function kneeFlex(hip?: V3, knee?: V3, ankle?: V3) {
@@ -856,21 +814,14 @@ async function onFiles(fs: FileList | null) {
     const lKneeFlex = kneeFlex(lHip, lKn, lAn);
 
     // Elbow flexion
-    function pickJoint(Jmap: Record<string, any>, names: string[]): [number,number,number] | undefined {
-      for (const n of names) {
-        const v = Jmap[n];
-        if (Array.isArray(v) && v.length === 3 && v.every(Number.isFinite)) return v as [number,number,number];
-      }
-      return undefined;
-    }
     function elbowFlex(shoulder?: [number,number,number], elbow?: [number,number,number], wrist?: [number,number,number]) {
       if (!shoulder || !elbow || !wrist) return undefined;
       const u = new THREE.Vector3(shoulder[0]-elbow[0], shoulder[1]-elbow[1], shoulder[2]-elbow[2]).normalize();
       const f = new THREE.Vector3(wrist[0]-elbow[0], wrist[1]-elbow[1], wrist[2]-elbow[2]).normalize();
       return THREE.MathUtils.radToDeg(u.angleTo(f));
     }
-    const rElbowFlex = elbowFlex(pickJoint(J, ["rShoulder","rightShoulder"]), pickJoint(J, ["rElbow","rightElbow"]), pickJoint(J, ["rWrist","rightWrist"]));
-    const lElbowFlex = elbowFlex(pickJoint(J, ["lShoulder","leftShoulder"]), pickJoint(J, ["lElbow","leftElbow"]), pickJoint(J, ["lWrist","leftWrist"]));
+    const rElbowFlex = elbowFlex(rSh, rEl, rW);
+    const lElbowFlex = elbowFlex(lSh, lEl, lW);
 
     // Linear displacement trunk vs hips -> home
     const trunkCoG = (() => {
@@ -885,8 +836,6 @@ async function onFiles(fs: FileList | null) {
     let linDispHome: number | undefined = undefined;
     if (trunkCoG && hipsCoG) linDispHome = hipsCoG.x - trunkCoG.x;
 
-    const hand = hands[ti] || "?";
-
     const dbg = {
       frame: fi,
       time: frames[fi]?.time ?? null,
@@ -903,6 +852,8 @@ async function onFiles(fs: FileList | null) {
       hipMinusTrunk,
       rAbd,
       lAbd,
+      shoulderHAbd,
+      shoulderER,
       rKneeFlex,
       lKneeFlex,
       rElbowFlex,
@@ -913,232 +864,299 @@ async function onFiles(fs: FileList | null) {
       dbg
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [frames, frameJoints, bodyHeight, fi, flipHome, flipHAbd, ti, hands]);
+  }, [frames, frameJoints, heightM, fi, flipHome, flipHAbd, ti, hands]);
 
-  // ------- full-pitch biomech series (for graphs) -------
-  const biomech = useMemo(() => {
+  // ------- full-pitch biomech series (for graphs) — computed in the parse worker -------
+  const [biomech, setBiomech] = useState<BiomechSeries>(() => emptyBiomechSeries(0));
+  useEffect(() => {
+    const packed = activePacked;
+    if (!packed) { setBiomech(emptyBiomechSeries(0)); return; }
+    let live = true;
+    const hand = hands[ti] ?? "?";
+    pipelineRef.current.series(packed, jointRes, { flipHome, bodyHeight: heightM, hand, flipHAbd, up: groundUp })
+      .then((s) => { if (live) setBiomech(s); })
+      .catch((err) => { if (live) { setBiomech(emptyBiomechSeries(0)); computeFailed("Biomech series")(err); } });
+    return () => { live = false; };
+  }, [activePacked, ti, jointRes, flipHome, heightM, hands, flipHAbd, groundUp]);
+
+  // ------- max external rotation (layback): the Max ER keyframe, else the FS → BR peak -------
+  const maxER = useMemo(() => {
+    const er = biomech.shoulderER;
+    let k = phases?.keys.maxER;
+    if (k == null && fsIdx != null && brIdx != null) {
+      for (let i = fsIdx; i <= brIdx; i++) if (Number.isFinite(er[i]) && (k == null || er[i] > er[k])) k = i;
+    }
+    return k != null && Number.isFinite(er[k]) ? { frame: k, value: er[k] } : null;
+  }, [phases, fsIdx, brIdx, biomech]);
+
+  // ------- COM at foot strike: forward velocity / momentum and lateral drift -------
+  const comAtFs = useMemo(() => {
+    if (fsIdx == null) return null;
+    const vel = biomech.comVelHome[fsIdx], lateral = biomech.comLateral[fsIdx];
+    if (!Number.isFinite(vel) || !Number.isFinite(lateral)) return null;
+    return { vel, lateral, momentum: typeof bodyMass === "number" && bodyMass > 0 ? bodyMass * vel : undefined };
+  }, [fsIdx, biomech, bodyMass]);
+
+  // ------- kinematic sequence: segment velocity peaks around FS → BR (pitchers only) -------
+  const sequence = useMemo(() => {
+    if (tracks[ti]?.role !== "pitcher" || biomech.pelvisAngVel.length !== frames.length) return null;
+    return analyzeKinematicSequence(biomech, frames, { footStrike: fsIdx ?? undefined, release: brIdx ?? undefined });
+  }, [tracks, ti, biomech, frames, fsIdx, brIdx]);
+
+  // ------- lead-leg block between FS and BR (pitchers only) -------
+  const leadLeg = useMemo(() => {
+    if (tracks[ti]?.role !== "pitcher" || biomech.lKnee.length !== frames.length) return null;
+    return analyzeLeadLeg(biomech, frames, hands[ti] ?? "?", { footStrike: fsIdx ?? undefined, release: brIdx ?? undefined }, groundUp, flipHome);
+  }, [tracks, ti, biomech, frames, hands, fsIdx, brIdx, flipHome, groundUp]);
+
+  // ------- field landmarks in the file's coordinates: placed from the pitcher / ball, zone from the hitter -------
+  const fieldFrame = useMemo(() => {
+    if (!frames.length) return null;
+    const role = tracks[ti]?.role;
+    const mate = (roles: string[]) => sceneMates.map((i) => tracks[i]).find((t: any) => roles.includes(t.role));
+    const p = role === "pitcher" ? null : mate(["pitcher"]);
+    const pitcher = role === "pitcher" ? frames : p ? unpackFrames(p.packed, jointsFor(p)) : undefined;
+    return detectFieldFrame({ frames, pitcher, ball: tracks[ti]?.ball ?? p?.ball, flipHome });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [frames, tracks, ti, sceneMates, flipHome]);
+  const zone = useMemo(() => {
+    let height = DEFAULT_HITTER_HEIGHT, basis = "league average";
+    const role = tracks[ti]?.role;
+    const h = sceneMates.map((i) => tracks[i]).find((t: any) => t.role === "hitter" || t.role === "batter");
+    if ((role === "hitter" || role === "batter") && typeof heightM === "number") {
+      height = heightM; basis = typeof bodyHeight === "number" && bodyHeight > 0 ? "entered" : "estimated";
+    } else if (h) {
+      const est = calibrateSegments(h.packed, jointsFor(h)).height;
+      if (est) { height = est; basis = `estimated, ${h.name ?? "hitter"}`; }
+    }
+    return { ...strikeZone(height), height, basis };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tracks, ti, sceneMates, heightM, bodyHeight]);
+  const pitcherField = useMemo(() => (
+    fieldFrame && tracks[ti]?.role === "pitcher"
+      ? pitcherFieldMeasures(fieldFrame, frames, hands[ti] ?? "?", { footStrike: fsIdx ?? undefined, release: brIdx ?? undefined })
+      : undefined
+  ), [fieldFrame, tracks, ti, frames, hands, fsIdx, brIdx]);
+  const hitterField = useMemo(() => (fieldFrame && hitting ? hitterFieldMeasures(fieldFrame, frames) : null), [fieldFrame, hitting, frames]);
+  // A field placed from real positions can contradict the HOME guess the angle series use
+  const homeDisagrees = !!fieldFrame && fieldFrame.source !== "assumed" && (() => {
+    const home = flipHome ? HOME_BASE.clone().multiplyScalar(-1) : HOME_BASE;
+    const m = fieldFrame.toMound;
+    return home.x * m[0] + home.y * m[1] + home.z * m[2] > 0.5;
+  })();
+
+  // ------- bat head speed (hitter tracks with bat samples) -------
+  const batSeries = useMemo(() => {
     const n = frames.length;
-    const series = {
-      trunkRot: new Array<number>(n).fill(NaN),
-      hipRot: new Array<number>(n).fill(NaN),
-      hipMinusTrunk: new Array<number>(n).fill(NaN),
-      rAbd: new Array<number>(n).fill(NaN),
-      lAbd: new Array<number>(n).fill(NaN),
-      rKnee: new Array<number>(n).fill(NaN),
-      lKnee: new Array<number>(n).fill(NaN),
-      rElbow: new Array<number>(n).fill(NaN),
-      lElbow: new Array<number>(n).fill(NaN),
-      stride: new Array<number>(n).fill(NaN),
-      stridePct: new Array<number>(n).fill(NaN),
-      linDispHome: new Array<number>(n).fill(NaN),
-    };
-    if (!n) return series;
-
-    const hand = hands[ti] || "?";
-    const homeVec = (flipHome ? HOME_BASE.clone().multiplyScalar(-1) : HOME_BASE.clone());
-
-    // Helpers reused inside the loop
-    const getFrom = (J: Record<string,V3>, name: string): V3 | undefined => {
-      const want = name.replace(/[^a-z]/gi, "").toLowerCase();
-      for (const k of Object.keys(J)) if (k.replace(/[^a-z]/gi, "").toLowerCase() === want) return J[k];
-      return undefined;
-    };
-    const kneeFlex = (hip?: V3, knee?: V3, ankle?: V3) => {
-      if (!hip || !knee || !ankle) return undefined as any;
-      const t = new THREE.Vector3(hip[0] - knee[0], hip[1] - knee[1], hip[2] - knee[2]).normalize();
-      const s = new THREE.Vector3(ankle[0] - knee[0], ankle[1] - knee[1], ankle[2] - knee[2]).normalize();
-      return THREE.MathUtils.radToDeg(t.angleTo(s));
-    };
-    const elbowFlex = (shoulder?: V3, elbow?: V3, wrist?: V3) => {
-      if (!shoulder || !elbow || !wrist) return undefined as any;
-      const u = new THREE.Vector3(shoulder[0]-elbow[0], shoulder[1]-elbow[1], shoulder[2]-elbow[2]).normalize();
-      const f = new THREE.Vector3(wrist[0]-elbow[0], wrist[1]-elbow[1], wrist[2]-elbow[2]).normalize();
-      return THREE.MathUtils.radToDeg(u.angleTo(f));
-    };
-
-    let prevTrunk: number | null = null;
+    const speedMph = new Array<number>(n).fill(NaN);
+    const bat: ParsedBat | undefined = tracks[ti]?.bat;
+    if (!n || !bat || bat.samples.length < 2) return { speedMph, hasBat: false };
+
+    // Speed on the bat's own sample clock, then interpolated at each skeleton frame time
+    const s = bat.samples;
+    const sampleV = s.map((b, i) => {
+      const a = s[Math.max(0, i - 1)], c = s[Math.min(s.length - 1, i + 1)];
+      const dt = c.time - a.time;
+      if (dt <= 1e-9) return { time: b.time, mph: NaN };
+      const d = Math.hypot(c.head[0] - a.head[0], c.head[1] - a.head[1], c.head[2] - a.head[2]);
+      return { time: b.time, mph: mphFromMs(d / dt) };
+    });
     for (let i = 0; i < n; i++) {
-      const Jmap = frames[i]?.joints as Record<string,V3> || {};
-      // key joints
-      const lSh = getFrom(Jmap, "lShoulder") || (Jmap as any)["leftShoulder"];
-      const rSh = getFrom(Jmap, "rShoulder") || (Jmap as any)["rightShoulder"];
-      const lEl = getFrom(Jmap, "lElbow") || (Jmap as any)["leftElbow"];
-      const rEl = getFrom(Jmap, "rElbow") || (Jmap as any)["rightElbow"];
-      const lW  = getFrom(Jmap, "lWrist") || (Jmap as any)["leftWrist"];
-      const rW  = getFrom(Jmap, "rWrist") || (Jmap as any)["rightWrist"];
-      const lHip = getFrom(Jmap, "lHip") || (Jmap as any)["leftHip"];
-      const rHip = getFrom(Jmap, "rHip") || (Jmap as any)["rightHip"];
-      const lKn  = getFrom(Jmap, "lKnee") || (Jmap as any)["leftKnee"];
-      const rKn  = getFrom(Jmap, "rKnee") || (Jmap as any)["rightKnee"];
-      const lAn  = getFrom(Jmap, "lAnkle") || (Jmap as any)["leftAnkle"] || (Jmap as any)["lHeel"] || (Jmap as any)["leftHeel"] || (Jmap as any)["lBigToe"] || (Jmap as any)["leftBigToe"];
-      const rAn  = getFrom(Jmap, "rAnkle") || (Jmap as any)["rightAnkle"] || (Jmap as any)["rHeel"] || (Jmap as any)["rightHeel"] || (Jmap as any)["rBigToe"] || (Jmap as any)["rightBigToe"];
-      const pelvisRaw = getFrom(Jmap, "midHip") || getFrom(Jmap,"pelvis") || (Jmap as any)["hipCenter"] || (Jmap as any)["pelvisCenter"];
-      const pelvis: V3 | undefined = pelvisRaw || (lHip && rHip ? ([(lHip[0]+rHip[0])/2, (lHip[1]+rHip[1])/2, (lHip[2]+rHip[2])/2] as V3) : undefined);
-      const chestRaw = getFrom(Jmap,"chest") || (Jmap as any)["midShoulder"] || (Jmap as any)["upperChest"] || (Jmap as any)["sternum"] || getFrom(Jmap,"neck") || (Jmap as any)["c7"];
-      const chest: V3 | undefined = chestRaw || (lSh && rSh ? ([(lSh[0]+rSh[0])/2, (lSh[1]+rSh[1])/2, (lSh[2]+rSh[2])/2] as V3) : undefined);
-
-      // height
-      const head = getFrom(Jmap,"head") || getFrom(Jmap,"nose") || (Jmap as any)["topHead"];
-      let H = 1.0;
-      if (head && (lAn || rAn)) {
-        const hv = new THREE.Vector3(...head);
-        const av = lAn ? new THREE.Vector3(...lAn) : new THREE.Vector3(...(rAn as V3));
-        H = hv.distanceTo(av);
-      }
-      if (typeof bodyHeight === "number" && bodyHeight > 0) H = bodyHeight;
-
-      // stride
-      let stride: number | undefined;
-      if (lAn && rAn) stride = new THREE.Vector3(...lAn).distanceTo(new THREE.Vector3(...rAn));
-      const stridePct = stride && H ? (stride / H) * 100 : undefined;
-
-      // hip rot
-      const hipVec = (lHip && rHip) ? new THREE.Vector3(rHip[0] - lHip[0], rHip[1] - lHip[1], rHip[2] - lHip[2]) : null;
-      const hipRotDeg = hipVec ? yawDeg(homeVec, hipVec) : undefined;
-
-      // body basis
-      const T = (() => {
-        if (pelvis && chest) {
-          const t = new THREE.Vector3(chest[0]-pelvis[0], chest[1]-pelvis[1], chest[2]-pelvis[2]);
-          if (t.lengthSq() > 1e-10) return t.normalize();
-        }
-        return new THREE.Vector3(0,1,0);
-      })();
-      const R = (() => {
-        if (lSh && rSh) {
-          const r = new THREE.Vector3(rSh[0]-lSh[0], rSh[1]-lSh[1], rSh[2]-lSh[2]);
-          if (r.lengthSq() > 1e-10) return r.normalize();
-        }
-        const tmp = Math.abs(T.y) < 0.9 ? new THREE.Vector3(0,1,0) : new THREE.Vector3(1,0,0);
-        return tmp.clone().sub(T.clone().multiplyScalar(tmp.dot(T))).normalize();
-      })();
-      let F = new THREE.Vector3().crossVectors(R, T);
-      if (F.lengthSq() < 1e-9) F = homeVec.clone().sub(T.clone().multiplyScalar(homeVec.dot(T)));
-      F.normalize();
-
-      // trunk rot unwrapped lightly
-      let trunkRotDeg: number | undefined = undefined;
-      if (lSh && rSh) {
-        const rShV = new THREE.Vector3(...rSh);
-        const lShV = new THREE.Vector3(...lSh);
-        const shoulderAxis = rShV.clone().sub(lShV);
-        const raw = wrap180(yawDeg(homeVec, shoulderAxis));
-        if (prevTrunk == null) prevTrunk = raw;
-        const unwrapped = unwrapToPrev(raw, prevTrunk);
-        trunkRotDeg = unwrapped;
-        prevTrunk = unwrapped;
-      }
-
-      const hipMinus = (hipRotDeg != null && trunkRotDeg != null) ? wrap180(hipRotDeg - trunkRotDeg) : undefined;
-
-      // abduction
-      const rUpper = (rSh && rEl) ? new THREE.Vector3(rEl[0] - rSh[0], rEl[1] - rSh[1], rEl[2] - rSh[2]) : null;
-      const lUpper = (lSh && lEl) ? new THREE.Vector3(lEl[0] - lSh[0], lEl[1] - lSh[1], lEl[2] - lSh[2]) : null;
-      let rAbd = (rUpper && rUpper.lengthSq()>1e-10) ? fold90(THREE.MathUtils.radToDeg(rUpper.clone().normalize().angleTo(T))) : undefined;
-      let lAbd = (lUpper && lUpper.lengthSq()>1e-10) ? fold90(THREE.MathUtils.radToDeg(lUpper.clone().normalize().angleTo(T))) : undefined;
-
-      const rKneeF = kneeFlex(rHip, rKn, rAn);
-      const lKneeF = kneeFlex(lHip, lKn, lAn);
-      const rElbF = elbowFlex(rSh as any, rEl as any, rW as any);
-      const lElbF = elbowFlex(lSh as any, lEl as any, lW as any);
-
-      // lin disp
-      const trunkCoG = (() => {
-        const pts = [pelvis, chest, rSh, lSh].filter(Boolean) as V3[];
-        if (!pts.length) return undefined;
-        const vs = pts.map(p => new THREE.Vector3(p[0], p[1], p[2]));
-        return vs.reduce((s, v) => s.add(v), new THREE.Vector3()).multiplyScalar(1 / vs.length);
-      })();
-      const hipsCoG = (lHip && rHip)
-        ? new THREE.Vector3((lHip[0] + rHip[0]) / 2, (lHip[1] + rHip[1]) / 2, (lHip[2] + rHip[2]) / 2)
-        : undefined;
-      let linDispHome = (trunkCoG && hipsCoG) ? (hipsCoG.x - trunkCoG.x) : undefined;
-
-      // write
-      series.trunkRot[i] = Number.isFinite(trunkRotDeg as any) ? (trunkRotDeg as number) : NaN;
-      series.hipRot[i] = Number.isFinite(hipRotDeg as any) ? (hipRotDeg as number) : NaN;
-      series.hipMinusTrunk[i] = Number.isFinite(hipMinus as any) ? (hipMinus as number) : NaN;
-      series.rAbd[i] = Number.isFinite(rAbd as any) ? (rAbd as number) : NaN;
-      series.lAbd[i] = Number.isFinite(lAbd as any) ? (lAbd as number) : NaN;
-      series.rKnee[i] = Number.isFinite(rKneeF as any) ? (rKneeF as number) : NaN;
-      series.lKnee[i] = Number.isFinite(lKneeF as any) ? (lKneeF as number) : NaN;
-      series.rElbow[i] = Number.isFinite(rElbF as any) ? (rElbF as number) : NaN;
-      series.lElbow[i] = Number.isFinite(lElbF as any) ? (lElbF as number) : NaN;
-      series.stride[i] = Number.isFinite(stride as any) ? (stride as number) : NaN;
-      series.stridePct[i] = Number.isFinite(stridePct as any) ? (stridePct as number) : NaN;
-      series.linDispHome[i] = Number.isFinite(linDispHome as any) ? (linDispHome as number) : NaN;
+      const at = sampleAt(sampleV, frames[i]?.time);
+      if (at) speedMph[i] = at.a.mph + (at.b.mph - at.a.mph) * at.u;
     }
-    return series;
-  }, [frames, ti, hands, flipHome, flipHAbd, bodyHeight]);
+    return { speedMph, hasBat: true };
+  }, [frames, tracks, ti]);
+
+  // ------- swing phases + hand path (hitters): contact from the timeline, else peak bat / hand speed -------
+  const swing = useMemo(() => {
+    const t = tracks[ti];
+    if (!t || !hitting || !frames.length) return null;
+    const contactSec = firstEventTime(t.events, "contact");
+    const contact = contactSec != null && contactSec >= frames[0].time && contactSec <= frames[frames.length - 1].time
+      ? frameAtTime(frames, contactSec) : undefined;
+    return {
+      ...segmentSwing(frames, t.fps, { contact, batSpeed: batSeries.hasBat ? batSeries.speedMph : undefined }, groundUp),
+      hands: handPath(frames, t.fps),
+      bats: hitterLeadSide(frames) === "L" ? "R" : "L",
+      contactFromEvent: contact != null,
+    };
+  }, [tracks, ti, hitting, frames, batSeries, groundUp]);
+  const phaseBands: ScrubberBand[] = (phases ?? swing)?.phases ?? [];
+
+  // ------- overlay of a second delivery: cleaned / filtered like this one, aligned on an event -------
+  useEffect(() => { setCompareTi(null); }, [tracks]);
+  const compareOptions = tracks
+    .map((t: any, i: number) => ({ t, i }))
+    .filter(({ t, i }: any) => i !== ti && t.role === tracks[ti]?.role)
+    .map(({ t, i }: any) => ({ index: i, label: `${t.name ?? t.personId ?? `Track ${i + 1}`}${t._pitchId ? ` · ${t._pitchId}` : ""} · ${t._file ?? ""}` }));
+  const cmpIndex = compareTi != null && compareOptions.some((o: { index: number }) => o.index === compareTi) ? compareTi : null;
+  const [compared, setCompared] = useState<{ index: number; frames: TrackFrame[]; series: BiomechSeries } | null>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  useEffect(() => {
+    setCompareError(null);
+    if (cmpIndex == null) { setCompared(null); return; }
+    let live = true;
+    const t = tracks[cmpIndex];
+    const res = jointsFor(t);
+    (async () => {
+      const { packed: clean } = await pipelineRef.current.clean(t.packed, res);
+      const packed = filterSettings.enabled ? await pipelineRef.current.filter(clean, res, filterSettings) : clean;
+      const height = calibrateSegments(packed, res).height ?? "";
+      const cmpFrames = unpackFrames(packed, res);
+      const series = await pipelineRef.current.series(packed, res, {
+        flipHome, bodyHeight: height, hand: hands[cmpIndex] ?? "?", flipHAbd, up: groundNormalOf(cmpFrames),
+      });
+      if (live) setCompared({ index: cmpIndex, frames: cmpFrames, series });
+    })().catch((err) => {
+      if (!live) return;
+      setCompared(null);
+      setCompareError(`The compared track could not be processed: ${err instanceof Error ? err.message : String(err)}`);
+      computeFailed("Compared track")(err);
+    });
+    return () => { live = false; };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cmpIndex, tracks, profiles, profileChoices, filterSettings, flipHome, flipHAbd, hands]);
+
+  const compareEvents: CompareEvent[] = tracks[ti]?.role === "pitcher" ? ["fs", "br"] : ["heelPlant", "contact"];
+  const cmpEvent = compareEvents.includes(compareEvent) ? compareEvent : compareEvents[0];
+  // Event frames on the compared track: detections (and saved overrides) as for the selected one
+  const comparedKeys = useMemo<Partial<Record<CompareEvent, number>> | null>(() => {
+    if (!compared || !compared.frames.length) return null;
+    const t = tracks[compared.index], f = compared.frames, hand = hands[compared.index] ?? "?";
+    if (t.role === "pitcher") {
+      const ov = eventOverrides[overrideKey(t._file ?? "", t._pitchId, t.role, String(t.personId ?? compared.index))] ?? {};
+      return {
+        fs: ov.fs != null ? frameAtTime(f, ov.fs) : findFootStrike(f, hand, t.fps)?.index,
+        br: ov.br != null ? frameAtTime(f, ov.br) : findBallRelease(f, hand, t.fps, t._releaseSeconds)?.index,
+      };
+    }
+    const contactSec = firstEventTime(t.events, "contact");
+    const contact = contactSec != null && contactSec >= f[0].time && contactSec <= f[f.length - 1].time ? frameAtTime(f, contactSec) : undefined;
+    const { keys } = segmentSwing(f, t.fps, { contact }, groundNormalOf(f));
+    return { heelPlant: keys.heelPlant, contact: keys.contact };
+  }, [compared, tracks, hands, eventOverrides]);
+  const compareAlign = useMemo(() => {
+    if (!compared || !comparedKeys || !frames.length) return null;
+    const mainKeys: Partial<Record<CompareEvent, number>> = {
+      fs: fsIdx ?? undefined, br: brIdx ?? undefined, heelPlant: swing?.keys.heelPlant, contact: swing?.keys.contact,
+    };
+    const a = mainKeys[cmpEvent], b = comparedKeys[cmpEvent];
+    if (a == null || b == null) return null;
+    const t = tracks[compared.index];
+    const fields = compareSpace === "field" ? {
+      main: fieldFrame,
+      other: detectFieldFrame({ frames: compared.frames, pitcher: t.role === "pitcher" ? compared.frames : undefined, ball: t.ball, flipHome }),
+    } : undefined;
+    return alignDeliveries(frames, compared.frames, a, b, compareSpace, fields);
+  }, [compared, comparedKeys, frames, fsIdx, brIdx, swing, cmpEvent, compareSpace, fieldFrame, tracks, flipHome]);
+  const pairSeries = useMemo(
+    () => (compared && compareAlign ? resampleSeries(compared.series, compareAlign.frameMap) : null),
+    [compared, compareAlign],
+  );
+  const comparePose = compared && compareAlign ? comparedPose(compareAlign, compared.frames, fi) : null;
+  const compareDist = useMemo(
+    () => (comparePose ? jointDistances(frameJoints as Record<string, V3>, comparePose, CORE_JOINTS) : null),
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+    [compared, compareAlign, fi, frameJoints],
+  );
+  const compareNote = cmpIndex == null ? undefined
+    : !compared ? compareError ?? "Preparing the compared track…"
+    : !compareAlign ? `No ${COMPARE_EVENT_LABEL[cmpEvent].toLowerCase()} on ${comparedKeys?.[cmpEvent] == null ? "the compared track" : "this track"}`
+    : undefined;
 
   // Draw current frame
   useEffect(() => {
     const scene = sceneRef.current;
     purgeStray(scene);
-    jointsGroup.current.clear();
-    bonesGroup.current.clear();
+    clearGroup(jointsGroup.current);
+    clearGroup(bonesGroup.current);
+    clearGroup(ballGroup.current);
+    clearGroup(batGroup.current);
+    clearGroup(comGroup.current);
     if (!frames.length) return;
 
     const J = frameJoints as Record<string, V3>;
-    const current: (V3 | undefined)[] = new Array(16).fill(undefined);
-    const aliases: Record<number, string[]> = {
-      0: ["head", "nose", "topHead"],
-      1: ["neck", "c7", "neckBase"],
-      2: ["chest", "midShoulder", "upperChest", "sternum"],
-      3: ["midHip", "pelvis", "hipCenter", "pelvisCenter"],
-      4: ["lShoulder", "leftShoulder"],
-      5: ["lElbow", "leftElbow"],
-      6: ["lWrist", "leftWrist"],
-      7: ["rShoulder", "rightShoulder"],
-      8: ["rElbow", "rightElbow"],
-      9: ["rWrist", "rightWrist"],
-      10: ["lHip", "leftHip"],
-      11: ["lKnee", "leftKnee"],
-      12: ["lAnkle", "leftAnkle", "lHeel", "leftHeel", "lBigToe", "leftBigToe"],
-      13: ["rHip", "rightHip"],
-      14: ["rKnee", "rightKnee"],
-      15: ["rAnkle", "rightAnkle", "rHeel", "rightHeel", "rBigToe", "rightBigToe"],
-    };
-    for (const [idxStr, names] of Object.entries(aliases)) {
-      const idx = Number(idxStr);
-      for (const nm of names) {
-        if (!current[idx] && J[nm]) { current[idx] = J[nm]; break; }
+
+    const sMat = sharedMaterial("joint", () => standard(0x7dd3fc));
+    const bMat = sharedMaterial("bone", () => standard(0x93c5fd));
+
+    if (fullSkeleton) {
+      // Every joint in the file; bones from the canonical topology (hands, feet, spine segments)
+      const xMat = sharedMaterial("jointExtra", () => standard(0x94a3b8));
+      addSkeleton(jointsGroup.current, J, { bone: bMat, joint: (pt) => (pt.kind === "extra" ? xMat : sMat) }, bonesGroup.current);
+    } else {
+      const C = withBodyCenters(J);
+      const current: (V3 | undefined)[] = new Array(16).fill(undefined);
+      for (const [name, idx] of Object.entries(IDX)) current[idx] = C[name];
+      current.forEach((p) => { if (p) addJoint(jointsGroup.current, p, JOINT_RADIUS.core, sMat); });
+      for (const [a, b] of BONES) {
+        const pa = current[a], pb = current[b];
+        if (pa && pb) addBone(bonesGroup.current, pa, pb, BONE_RADIUS.body, bMat);
       }
     }
-    if (!current[2] && current[4] && current[7]) {
-      const L = current[4]!, R = current[7]!;
-      current[2] = [(L[0]+R[0])/2, (L[1]+R[1])/2, (L[2]+R[2])/2];
-    }
-    if (!current[3] && current[10] && current[13]) {
-      const L = current[10]!, R = current[13]!;
-      current[3] = [(L[0]+R[0])/2, (L[1]+R[1])/2, (L[2]+R[2])/2];
+
+    // Bat: tapered segment handle → head, snapped onto the hands, plus the head's swing-path trail
+    const bat: ParsedBat | undefined = tracks[ti]?.bat;
+    const seg = batSegmentAt(bat, frames[fi]?.time);
+    if (bat && seg) {
+      const handle = new THREE.Vector3(...seg.handle);
+      const head = new THREE.Vector3(...seg.head);
+      const lW = J["lWrist"];
+      const rW = J["rWrist"];
+      if (lW && rW) {
+        const grip = new THREE.Vector3((lW[0]+rW[0])/2, (lW[1]+rW[1])/2, (lW[2]+rW[2])/2);
+        if (grip.distanceTo(handle) < BAT_GRIP_SNAP_M) {
+          const shift = grip.clone().sub(handle);
+          handle.add(shift);
+          head.add(shift);
+        }
+      }
+      addBat(batGroup.current, { handle: [handle.x, handle.y, handle.z], head: [head.x, head.y, head.z] });
+
+      const tNow = frames[fi]?.time ?? 0;
+      const trail = bat.samples.filter((b) => b.time <= tNow).map((b) => new THREE.Vector3(...b.head));
+      if (trail.length > 1) {
+        batGroup.current.add(new THREE.Line(
+          new THREE.BufferGeometry().setFromPoints(trail),
+          new THREE.LineBasicMaterial({ color: 0xf472b6, transparent: true, opacity: 0.8 })
+        ));
+      }
     }
 
-    const sphere = new THREE.SphereGeometry(0.03, 16, 16);
-    const sMat = new THREE.MeshStandardMaterial({ color: 0x7dd3fc, metalness: 0.1, roughness: 0.8 });
-    const cyl = new THREE.CylinderGeometry(0.015, 0.015, 1, 12);
-    const bMat = new THREE.MeshStandardMaterial({ color: 0x93c5fd, metalness: 0.1, roughness: 0.8 });
+    // Whole-body COM: marker at this frame plus its path so far
+    if (biomech.comX.length === frames.length) {
+      const trail: any[] = [];
+      for (let i = 0; i <= fi; i++) {
+        if (Number.isFinite(biomech.comX[i])) trail.push(new THREE.Vector3(biomech.comX[i], biomech.comY[i], biomech.comZ[i]));
+      }
+      if (trail.length > 1) {
+        comGroup.current.add(new THREE.Line(
+          new THREE.BufferGeometry().setFromPoints(trail),
+          new THREE.LineBasicMaterial({ color: 0x34d399, transparent: true, opacity: 0.8 })
+        ));
+      }
+      if (Number.isFinite(biomech.comX[fi])) {
+        addJoint(comGroup.current, [biomech.comX[fi], biomech.comY[fi], biomech.comZ[fi]], 0.045,
+          sharedMaterial("com", () => new THREE.MeshStandardMaterial({ color: 0x34d399, emissive: 0x34d399, emissiveIntensity: 0.3, roughness: 0.6 })));
+      }
+    }
 
-    current.forEach((p) => {
-      if (!p) return;
-      const m = new THREE.Mesh(sphere, sMat);
-      m.position.set(p[0], p[1], p[2]);
-      jointsGroup.current.add(m);
-    });
-    for (const [a, b] of BONES) {
-      const pa = current[a], pb = current[b];
-      if (!pa || !pb) continue;
-      const va = new THREE.Vector3(pa[0], pa[1], pa[2]);
-      const vb = new THREE.Vector3(pb[0], pb[1], pb[2]);
-      const mid = va.clone().add(vb).multiplyScalar(0.5);
-      const dir = vb.clone().sub(va);
-      const len = dir.length();
-      if (len < 1e-6) continue;
-      const bone = new THREE.Mesh(cyl, bMat);
-      bone.scale.set(1, len, 1);
-      bone.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), dir.clone().normalize());
-      bone.position.copy(mid);
-      bonesGroup.current.add(bone);
+    // Ball flight: full release → plate path plus the ball at the current frame time
+    const ball: ParsedBall | undefined = tracks[ti]?.ball;
+    if (ball?.samples.length) {
+      const pts = ball.samples.map((s) => new THREE.Vector3(s.pos[0], s.pos[1], s.pos[2]));
+      const path = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(pts),
+        new THREE.LineBasicMaterial({ color: 0xfbbf24, transparent: true, opacity: 0.7 })
+      );
+      ballGroup.current.add(path);
+
+      const bp = ballPositionAt(ball, frames[fi]?.time);
+      if (bp) {
+        addJoint(ballGroup.current, bp, 0.037,
+          sharedMaterial("ball", () => new THREE.MeshStandardMaterial({ color: 0xffffff, emissive: 0xfbbf24, emissiveIntensity: 0.35, roughness: 0.6 })));
+      }
     }
 
     // Keep orientation locked (smooth slerp to track-locked quaternion)
@@ -1150,27 +1168,29 @@ async function onFiles(fs: FileList | null) {
     qNow.slerp(targetQ, 0.6);
     root.setRotationFromQuaternion(qNow);
     prevQuatRef.current = qNow.clone();
-  }, [frames, frameJoints, fi]);
+  }, [frames, frameJoints, fi, tracks, ti, fullSkeleton, biomech]);
 
   // Lock orientation & fit camera on track switch
   useEffect(() => {
     lockedQuatRef.current = null;
     prevQuatRef.current = null;
-    prevJointMapRef.current = {};
-    prevTrunkDegRef.current = null;
 
     if (!frames.length) return;
     const idx = Math.min(frames.length - 1, Math.max(0, Math.floor(frames.length * 0.1)));
     const J = frames[idx].joints as Record<string, V3>;
 
-    const headP = J["head"] || J["nose"] || (J as any)["topHead"];
-    const pelvisP = J["midHip"] || J["pelvis"] || (J as any)["hipCenter"] || (J as any)["pelvisCenter"];
-    const chestP = J["chest"] || (J as any)["midShoulder"] || (J as any)["upperChest"] || (J as any)["sternum"] || J["neck"];
-    const hipL = J["lHip"] || (J as any)["leftHip"];
-    const hipR = J["rHip"] || (J as any)["rightHip"];
+    const headP = J["head"];
+    const pelvisP = J["pelvis"];
+    const chestP = J["chest"] || J["neck"];
+    const hipL = J["lHip"];
+    const hipR = J["rHip"];
 
     let q = new THREE.Quaternion();
-    if (headP && pelvisP) {
+    const fieldUp = upAxisOf(frames);
+    if (fieldUp && sceneMode) {
+      // Scene mode keeps the field frame: only the file's vertical axis (nearest to pelvis → head) is turned up
+      q.setFromUnitVectors(new THREE.Vector3(...fieldUp), new THREE.Vector3(0, 1, 0));
+    } else if (headP && pelvisP) {
       const head = new THREE.Vector3(...headP);
       const pelvis = new THREE.Vector3(...pelvisP);
       const upNow = head.clone().sub(pelvis).normalize();
@@ -1196,8 +1216,8 @@ async function onFiles(fs: FileList | null) {
     // Upright sanity flip if needed
     try {
       const headP2 = headP;
-      const lAn   = J["lAnkle"] || (J as any)["leftAnkle"] || (J as any)["lHeel"] || (J as any)["leftHeel"] || (J as any)["lBigToe"] || (J as any)["leftBigToe"];
-      const rAn   = J["rAnkle"] || (J as any)["rightAnkle"] || (J as any)["rHeel"] || (J as any)["rightHeel"] || (J as any)["rBigToe"] || (J as any)["rightBigToe"];
+      const lAn   = J["lAnkle"];
+      const rAn   = J["rAnkle"];
       if (headP2 && (lAn || rAn)) {
         const toLocal = (p: any) => new THREE.Vector3(p[0], p[1], p[2]).applyQuaternion(q);
         const headY = toLocal(headP2).y;
@@ -1218,7 +1238,9 @@ async function onFiles(fs: FileList | null) {
     // Fit camera
     setTimeout(() => {
       const cam = cameraRef.current!;
-      const box = new THREE.Box3().setFromObject(skeletonRootRef.current);
+      // Fit to the body only — the ball path would otherwise shrink the pitcher to a dot; in scene mode to everyone
+      const box = new THREE.Box3().setFromObject(jointsGroup.current).expandByObject(bonesGroup.current);
+      if (sceneMode) box.expandByObject(sceneGroup.current);
       const size = new THREE.Vector3(); box.getSize(size);
       const center = new THREE.Vector3(); box.getCenter(center);
       const maxDim = Math.max(size.x, size.y, size.z, 1);
@@ -1227,7 +1249,7 @@ async function onFiles(fs: FileList | null) {
       controlsRef.current!.target.copy(center);
       cam.lookAt(controlsRef.current!.target);
     }, 0);
-  }, [ti, frames.length, flipHome]);
+  }, [ti, frames.length, flipHome, sceneMode, companions]);
 
   // Smooth jump (ease over ~320ms)
   function smoothJump(target: number, ms = 320) {
@@ -1248,10 +1270,257 @@ async function onFiles(fs: FileList | null) {
   const goFootStrike = () => { if (fsIdx != null) smoothJump(fsIdx); };
   const goRelease    = () => { if (brIdx != null) smoothJump(brIdx); };
 
+  function dumpDebug() {
+    console.log("DEBUG joint map:", frameJoints);
+    if (metrics) console.log("DEBUG metrics:", metrics);
+    setDebug("Debug dumped to console.");
+  }
+
+  // ------- playback on the track's timestamps; a new track starts paused with no loop -------
+  const playback = usePlayback(frames, fi, setFi);
+  useEffect(() => { playback.setPlaying(false); playback.setLoop(null); }, [tracks, ti]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // ------- motion trails over a chosen span, ghost poses at keyframes -------
+  const [trailJoints, setTrailJoints] = useState<TrailJoint[]>(["throwWrist"]);
+  const [trailSpan, setTrailSpan] = useState<TrailSpan>("keys");
+  const [ghostsOn, setGhostsOn] = useState<string[]>([]);
+  const trails = useMemo(() => buildTrails(frames, trailJoints, hands[ti] ?? "?"), [frames, trailJoints, hands, ti]);
+  const trailSpanLabels: Partial<Record<TrailSpan, string>> = {
+    ...(swing ? { keys: "Stride → finish" } : fsIdx != null && brIdx != null ? { keys: "FS → BR (±0.1 s)" } : {}),
+    toNow: "Start → now",
+    all: "Whole clip",
+    ...(playback.loop ? { loop: "Loop A → B" } : {}),
+  };
+  const shownSpan: TrailSpan = trailSpan in trailSpanLabels ? trailSpan : "toNow";
+  const [trailFrom, trailTo] = ((): [number, number] => {
+    const last = frames.length - 1;
+    if (shownSpan === "all") return [0, last];
+    if (shownSpan === "loop" && playback.loop) return [Math.min(playback.loop.a, playback.loop.b), Math.max(playback.loop.a, playback.loop.b)];
+    if (shownSpan === "keys" && swing) return [swing.keys.strideStart ?? 0, swing.keys.finish ?? last];
+    if (shownSpan === "keys" && fsIdx != null && brIdx != null) {
+      return [frameAtTime(frames, frames[fsIdx].time - 0.1), frameAtTime(frames, frames[brIdx].time + 0.1)];
+    }
+    return [0, fi];
+  })();
+  const ghosts = useMemo<GhostPose[]>(() => {
+    const g: GhostPose[] = [];
+    const add = (id: string, label: string, frame: number | null | undefined, color: string) => {
+      if (frame != null && frames[frame]) g.push({ id, label, frame, color });
+    };
+    if (swing) {
+      add("heelPlant", "Heel plant", swing.keys.heelPlant, "#34d399");
+      add("contact", "Contact", swing.keys.contact, "#f87171");
+    } else {
+      add("fs", "FS", fsIdx, "#34d399");
+      add("maxER", "Max ER", phases?.keys.maxER, "#eab308");
+      add("br", "BR", brIdx, "#f472b6");
+    }
+    return g;
+  }, [frames, swing, phases, fsIdx, brIdx]);
+
+  useEffect(() => {
+    clearGroup(trailGroup.current);
+    clearGroup(ghostGroup.current);
+    if (!frames.length) return;
+
+    // Trails: one vertex-coloured line per run of frames with the joint, graded by the trail's own top speed
+    for (const tr of trails) {
+      let pos: number[] = [], col: number[] = [];
+      const flush = () => {
+        if (pos.length >= 6) {
+          const geom = new THREE.BufferGeometry();
+          geom.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
+          geom.setAttribute("color", new THREE.Float32BufferAttribute(col, 3));
+          trailGroup.current.add(new THREE.Line(geom, new THREE.LineBasicMaterial({ vertexColors: true })));
+        }
+        pos = []; col = [];
+      };
+      for (let i = Math.max(0, trailFrom); i <= trailTo; i++) {
+        const p = tr.points[i];
+        if (!p) { flush(); continue; }
+        pos.push(p[0], p[1], p[2]);
+        col.push(...speedColor(tr.speed[i] / (tr.maxSpeed || 1)));
+      }
+      flush();
+    }
+
+    // Ghosts: see-through body at each chosen keyframe
+    for (const g of ghosts) {
+      if (!ghostsOn.includes(g.id)) continue;
+      const mat = sharedMaterial(`ghost:${g.color}`, () =>
+        new THREE.MeshBasicMaterial({ color: new THREE.Color(g.color), transparent: true, opacity: 0.3, depthWrite: false }));
+      addSkeleton(ghostGroup.current, frames[g.frame].joints as Record<string, V3>, { bone: mat, radiusScale: 0.8, skipParts: ["face"] });
+    }
+  }, [frames, trails, trailFrom, trailTo, ghosts, ghostsOn]);
+
+  // Field landmarks, built field-local (x catcher's right, y toward the mound, z up) and placed by the field frame
+  useEffect(() => {
+    const g = fieldGroup.current;
+    clearGroup(g);
+    if (!showField || !fieldFrame) return;
+    const { right, toMound, up, origin } = fieldFrame;
+    new THREE.Matrix4()
+      .makeBasis(new THREE.Vector3(...right), new THREE.Vector3(...toMound), new THREE.Vector3(...up))
+      .setPosition(new THREE.Vector3(...origin))
+      .decompose(g.position, g.quaternion, g.scale);
+
+    const line = (pts: [number, number, number][], color: number, closed = true) => {
+      const geo = new THREE.BufferGeometry().setFromPoints(pts.map((p) => new THREE.Vector3(...p)));
+      const mat = new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.8 });
+      g.add(closed ? new THREE.LineLoop(geo, mat) : new THREE.Line(geo, mat));
+    };
+
+    // Mound: polar grid over the 18 ft circle, heights from the regulation profile
+    const rings = 16, segs = 64, pos: number[] = [], idx: number[] = [];
+    for (let r = 0; r <= rings; r++) {
+      for (let k = 0; k < segs; k++) {
+        const rad = (FIELD.moundRadius * r) / rings, a = (2 * Math.PI * k) / segs;
+        const x = rad * Math.cos(a), y = FIELD.moundCenter + rad * Math.sin(a);
+        pos.push(x, y, moundHeight(x, y));
+        if (r < rings) {
+          const i0 = r * segs + k, i1 = r * segs + ((k + 1) % segs);
+          idx.push(i0, i0 + segs, i1, i1, i0 + segs, i1 + segs);
+        }
+      }
+    }
+    const mound = new THREE.BufferGeometry();
+    mound.setAttribute("position", new THREE.Float32BufferAttribute(pos, 3));
+    mound.setIndex(idx);
+    mound.computeVertexNormals();
+    g.add(new THREE.Mesh(mound, new THREE.MeshStandardMaterial({
+      color: 0x8b5a2b, roughness: 1, transparent: true, opacity: 0.55, side: THREE.DoubleSide, depthWrite: false,
+    })));
+
+    // Rubber: front edge at 60 ft 6 in, top flush with the table
+    const rubber = new THREE.Mesh(
+      new THREE.BoxGeometry(FIELD.rubberWidth, FIELD.rubberDepth, 0.02),
+      new THREE.MeshStandardMaterial({ color: 0xf8fafc, roughness: 0.6 }),
+    );
+    rubber.position.set(0, FIELD.rubberDist + FIELD.rubberDepth / 2, FIELD.rubberHeight - 0.005);
+    g.add(rubber);
+
+    // Plate, batter's boxes and the strike zone over the plate
+    const plate = new THREE.Mesh(
+      new THREE.ShapeGeometry(new THREE.Shape(plateOutline().map(([x, y]) => new THREE.Vector2(x, y)))),
+      new THREE.MeshStandardMaterial({ color: 0xf8fafc, roughness: 0.6, side: THREE.DoubleSide }),
+    );
+    plate.position.z = 0.003;
+    g.add(plate);
+    for (const [x0, x1, y0, y1] of batterBoxes()) line([[x0, y0, 0.003], [x1, y0, 0.003], [x1, y1, 0.003], [x0, y1, 0.003]], 0xcbd5e1);
+    const w = FIELD.plateWidth / 2, d = FIELD.plateWidth / 2 + FIELD.plateSide;
+    const zoneBox = new THREE.LineSegments(
+      new THREE.EdgesGeometry(new THREE.BoxGeometry(2 * w, d, zone.top - zone.bottom)),
+      new THREE.LineBasicMaterial({ color: 0xfacc15, transparent: true, opacity: 0.9 }),
+    );
+    zoneBox.position.set(0, d / 2, (zone.top + zone.bottom) / 2);
+    g.add(zoneBox);
+    // Rubber → plate line, for reading stride direction by eye
+    line([[0, FIELD.rubberDist, FIELD.rubberHeight], [0, d, 0.003]], 0x475569, false);
+  }, [showField, fieldFrame, zone]);
+
+  // Compared delivery: translucent skeleton, joints graded by their distance to the same joint here
+  useEffect(() => {
+    const g = compareGroup.current;
+    clearGroup(g);
+    if (!comparePose) return;
+    const mat = sharedMaterial("compare", () => standard(COMPARE_COLOR, { transparent: true, opacity: 0.35, depthWrite: false }));
+    // Distances are graded in HEAT_STEPS buckets so each colour's material is made once
+    const heat = (d: number) => {
+      const k = Math.min(HEAT_STEPS, Math.round((d / HEAT_MAX_M) * HEAT_STEPS));
+      return sharedMaterial(`heat:${k}`, () => standard(new THREE.Color(...speedColor(k / HEAT_STEPS)).getHex(), { transparent: true, opacity: 0.8 }));
+    };
+    addSkeleton(g, comparePose, {
+      bone: mat,
+      joint: (pt) => {
+        if (pt.kind !== "core") return undefined;
+        const d = compareDist?.[pt.name];
+        return d != null ? heat(d) : mat;
+      },
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compared, compareAlign, fi, compareDist]);
+
+  // Scene mode: the file's other people at the selected track's time, coloured by role
+  useEffect(() => {
+    clearGroup(sceneGroup.current);
+    const tNow = frames[fi]?.time;
+    if (!sceneMode || tNow == null) return;
+    for (const c of companions) {
+      const n = c.frames.length;
+      if (!n) continue;
+      // Outside a person's own clip they are not drawn rather than frozen at an end
+      const slack = tracks[c.index]?.timing?.medianDt ?? 0.02;
+      if (tNow < c.frames[0].time - slack || tNow > c.frames[n - 1].time + slack) continue;
+      const k = frameAtTime(c.frames, tNow);
+      const color = SCENE_ROLE_COLOR[c.role] ?? SCENE_ROLE_COLOR.other;
+      const mat = sharedMaterial(`scene:${color}`, () => standard(color));
+      addSkeleton(sceneGroup.current, c.frames[k].joints as Record<string, V3>, { bone: mat, joint: (pt) => (pt.kind === "core" ? mat : undefined) });
+      // The other person's bat, as sampled (no grip snap)
+      const seg = batSegmentAt(tracks[c.index]?.bat, tNow);
+      if (seg) addBat(sceneGroup.current, seg);
+    }
+  }, [sceneMode, companions, frames, fi, tracks]);
+
+  // Keyboard shortcuts (see SHORTCUTS); the handler is swapped each render so it sees current state
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    const el = e.target as HTMLElement | null;
+    if (el && (el.isContentEditable || ["INPUT", "SELECT", "TEXTAREA"].includes(el.tagName))) return;
+    if (e.ctrlKey || e.metaKey || e.altKey || !frames.length) return;
+    const last = frames.length - 1;
+    // A focused button would also "click" on the Space keyup
+    if (e.key === " " && el?.tagName === "BUTTON") el.blur();
+    switch (e.key) {
+      case " ": playback.toggle(); break;
+      case "ArrowLeft": playback.step(e.shiftKey ? -10 : -1); break;
+      case "ArrowRight": playback.step(e.shiftKey ? 10 : 1); break;
+      case "ArrowUp": playback.faster(1); break;
+      case "ArrowDown": playback.faster(-1); break;
+      case "Home": setFi(0); break;
+      case "End": setFi(last); break;
+      case "f": case "F": goFootStrike(); break;
+      case "r": case "R": goRelease(); break;
+      case "l": case "L":
+        if (fsIdx != null && brIdx != null && brIdx > fsIdx) {
+          const on = playback.loop?.a === fsIdx && playback.loop?.b === brIdx;
+          playback.setLoop(on ? null : { a: fsIdx, b: brIdx });
+        }
+        break;
+      case "a": case "A": playback.setLoop({ a: fi, b: playback.loop ? Math.max(fi, playback.loop.b) : fi }); break;
+      case "b": case "B": playback.setLoop({ a: playback.loop ? Math.min(fi, playback.loop.a) : fi, b: fi }); break;
+      case "Escape": playback.setLoop(null); break;
+      case "d": case "D": dumpDebug(); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
   return (
     <div className="layout" style={{ display: "grid", gridTemplateColumns: "480px 1fr", minHeight: "calc(100vh - 50px)" }}>
       <aside style={{ width: 480, borderRight: "1px solid #1e293b", padding: 12, display: "flex", flexDirection: "column", gap: 12 }}>
         <input type="file" multiple accept=".json,application/json" onChange={(e) => onFiles(e.target.files)} />
+        {!!loadProgress.length && (
+          <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+            {loadProgress.filter(Boolean).map((p) => (
+              <div key={p.index} style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 6, alignItems: "center" }}>
+                <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", opacity: 0.85 }}>{p.file}</div>
+                <div style={{ opacity: 0.7 }}>{p.stage === "reading" ? `${Math.round((100 * p.loaded) / Math.max(1, p.size))}%` : p.stage}</div>
+                <progress max={Math.max(1, p.size)} value={p.stage === "reading" ? p.loaded : p.size} style={{ gridColumn: "1 / span 2", width: "100%" }} />
+              </div>
+            ))}
+            <button
+              onClick={() => pipelineRef.current.cancel()}
+              style={{ padding: "4px 10px", borderRadius: 8, border: "1px solid #1e293b", background: "#0f172a", color: "#e2e8f0", alignSelf: "flex-start" }}
+            >
+              Cancel load
+            </button>
+          </div>
+        )}
         <div style={{ fontSize: 12, opacity: 0.85 }}>Tracks loaded: {tracks.length}</div>
 
         <label style={{ fontSize: 12, opacity: 0.85 }}>Select Track</label>
@@ -1274,31 +1543,124 @@ async function onFiles(fs: FileList | null) {
           })}
         </select>
 
+        <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12, opacity: sceneMates.length ? 1 : 0.5 }}
+          title="Draw every person in this file together, in the file's field coordinates; the selected track's clock drives everyone">
+          <input type="checkbox" checked={sceneMode} disabled={!sceneMates.length} onChange={(e) => setSceneMode(e.target.checked)} />
+          Scene: everyone in this file
+          {sceneMode && companions.map((c) => (
+            <span key={c.index} style={{ color: `#${(SCENE_ROLE_COLOR[c.role] ?? SCENE_ROLE_COLOR.other).toString(16).padStart(6, "0")}` }}>
+              ● {tracks[c.index]?.name ?? tracks[c.index]?.personId ?? `Track ${c.index + 1}`}
+            </span>
+          ))}
+        </label>
+
         <div style={{ display: "flex", gap: 8, fontSize: 12, opacity: 0.85, alignItems:"center", flexWrap:"wrap" }}>
           <div>Frames: {frames.length}</div>
-          <div>Hand: <b>{hands[ti] || "?"}</b></div>
-          <div>FS: <b>{fsIdx ?? "-"}</b></div>
-          <div>BR: <b>{brIdx ?? "-"}</b></div>
+          <div title={`fps from ${tracks[ti]?.timing?.fpsSource ?? "-"}, times from ${tracks[ti]?.timing?.timeSource ?? "-"}`}>
+            {tracks[ti]?.fps ? `${Math.round(tracks[ti].fps)} Hz` : "-"}
+          </div>
+          {!!tracks[ti]?.timing?.gaps?.length && (
+            <div style={{ color: "#fbbf24" }}>Gaps: <b>{tracks[ti].timing.gaps.length}</b></div>
+          )}
+          {quality && (quality.filled > 0 || quality.spikes > 0 || quality.boneViolations > 0) && (
+            <div style={{ color: "#fbbf24" }} title="Joint samples: spline-filled dropouts, velocity spikes removed, bone-length outliers">
+              Cleaned: <b>{quality.filled}</b> filled · <b>{quality.spikes}</b> spikes · <b>{quality.boneViolations}</b> bone
+            </div>
+          )}
+          {swing ? (
+            <>
+              <div title="From the front (pitcher-side) foot">Bats: <b>{swing.bats}</b></div>
+              <div>
+                Contact: <b>{swing.keys.contact ?? "-"}</b>{" "}
+                <span style={{ opacity: 0.7 }}>({swing.contactFromEvent ? "event" : batSeries.hasBat ? "peak bat speed" : "peak hand speed"})</span>
+              </div>
+            </>
+          ) : (
+            <>
+              <div>Hand: <b>{hands[ti] || "?"}</b></div>
+              <div title="Detector confidence; drag the FS tick under the slider to override">
+                FS: <b>{fsIdx ?? "-"}</b>{" "}
+                {override.fs != null
+                  ? <button onClick={() => setOverride("fs", null)} style={{ fontSize: 11, padding: "0 6px", borderRadius: 6, border: "1px solid #1e293b", background: "#0f172a", color: "#e2e8f0" }}>manual · auto</button>
+                  : <span style={{ opacity: 0.7 }}>({pct(detections.fs)})</span>}
+                {fsLow && <span title={fsLow.label} style={{ color: "#f59e0b", cursor: "help" }}> ⚠ low-confidence data</span>}
+              </div>
+              <div title="Detector confidence; drag the BR tick under the slider to override">
+                BR: <b>{brIdx ?? "-"}</b>{" "}
+                {override.br != null
+                  ? <button onClick={() => setOverride("br", null)} style={{ fontSize: 11, padding: "0 6px", borderRadius: 6, border: "1px solid #1e293b", background: "#0f172a", color: "#e2e8f0" }}>manual · auto</button>
+                  : <span style={{ opacity: 0.7 }}>({pct(detections.br)})</span>}
+                {brLow && <span title={brLow.label} style={{ color: "#f59e0b", cursor: "help" }}> ⚠ low-confidence data</span>}
+              </div>
+              {comAtFs && (
+                <div title="Whole-body COM (de Leva segments) at foot strike: velocity toward home, momentum with the weight above, sideways drift since the first frame">
+                  COM @ FS: <b>{comAtFs.vel.toFixed(2)} m/s</b>
+                  {comAtFs.momentum != null && <> · <b>{comAtFs.momentum.toFixed(0)}</b> kg·m/s</>}
+                  {" "}· drift <b>{comAtFs.lateral.toFixed(3)} m</b>
+                </div>
+              )}
+              {maxER && (
+                <div title="Peak throwing-shoulder external rotation between foot strike and release (ISB angles); click to jump">
+                  Max ER: <b style={{ cursor: "pointer" }} onClick={() => smoothJump(maxER.frame)}>{maxER.value.toFixed(0)}°</b>{" "}
+                  <span style={{ opacity: 0.7 }}>@ {maxER.frame}</span>
+                </div>
+              )}
+            </>
+          )}
         </div>
 
-        <input type="range" min={0} max={Math.max(0, frames.length - 1)} value={fi} onChange={(e) => setFi(+e.target.value)} />
+        <JointProfilePanel
+          file={trackFile}
+          profiles={profiles}
+          profileId={profileId}
+          resolution={jointRes}
+          onSelect={selectProfile}
+          onProfilesChange={updateCustomProfiles}
+        />
+
+        {rawPacked && (
+          <FilterPanel
+            settings={filterSettings}
+            onChange={updateFilterSettings}
+            sampleHz={sampleRateOf(rawPacked.times)}
+            raw={rawFrames}
+            filtered={frames}
+            frame={fi}
+            defaultJoint={hands[ti] === "L" ? "lWrist" : "rWrist"}
+          />
+        )}
+
+        <TrailsPanel joints={trailJoints} onJoints={setTrailJoints} span={shownSpan} onSpan={setTrailSpan}
+          spanLabels={trailSpanLabels} trails={trails} ghosts={ghosts} ghostsOn={ghostsOn} onGhosts={setGhostsOn} />
+
+        {compareOptions.length > 0 && (
+          <ComparePanel options={compareOptions} value={cmpIndex} onChange={setCompareTi}
+            event={cmpEvent} onEvent={setCompareEvent} events={compareEvents}
+            space={compareSpace} onSpace={setCompareSpace} fieldLabel={tracks[ti]?.role === "pitcher" ? "Rubber" : "Plate"}
+            distances={compareDist} note={compareNote} />
+        )}
+
+        {calibration && (
+          <SegmentPanel calibration={calibration} frame={fi} rigid={rigidSegments} onRigid={setRigidSegments} />
+        )}
+
+        <FrameScrubber n={frames.length} value={fi} onChange={setFi} marks={scrubberMarks} bands={phaseBands} lowConfidence={lowConfidence}
+          onMarkDrag={(id, frame) => setOverride(id === "fs" ? "fs" : "br", frame)} />
+
+        <PlaybackControls playback={playback} frame={fi} footStrike={fsIdx} release={brIdx} />
 
         <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
           <button disabled={fsIdx == null} onClick={goFootStrike}
             style={{ padding: "8px 12px", borderRadius: 10, border: "1px solid #1e293b", background: fsIdx==null?"#182034":"#0f172a", color: "#e2e8f0" }}>
-            Go Foot-Strike
+            Go Foot-Strike <span style={{ opacity: 0.5 }}>F</span>
           </button>
           <button disabled={brIdx == null} onClick={goRelease}
             style={{ padding: "8px 12px", borderRadius: 10, border: "1px solid #1e293b", background: brIdx==null?"#182034":"#0f172a", color: "#e2e8f0" }}>
-            Go Release
+            Go Release <span style={{ opacity: 0.5 }}>R</span>
           </button>
           <button
             title='Press "D" too'
-            onClick={() => {
-              console.log("DEBUG joint map (smoothed):", frameJoints);
-              if (metrics) console.log("DEBUG metrics:", metrics);
-              setDebug("Debug dumped to console.");
-            }}
+            onClick={dumpDebug}
             style={{ padding: "8px 12px", borderRadius: 10, border: "1px solid #1e293b", background: "#0f172a", color: "#e2e8f0" }}
           >
             Dump Debug
@@ -1318,34 +1680,106 @@ async function onFiles(fs: FileList | null) {
             <input type="checkbox" checked={flipHAbd} onChange={(e) => setFlipHAbd(e.target.checked)} />
             Flip H-Abd Sign
           </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}
+            title="Athlete height; empty uses the estimate from calibrated segment lengths (shown greyed)">
+            Height (m)
+            <input type="number" min={1} max={2.5} step={0.01} value={bodyHeight} style={{ width: 60 }}
+              placeholder={calibration?.height ? calibration.height.toFixed(2) : ""}
+              onChange={(e) => setBodyHeight(e.target.value === "" ? "" : +e.target.value)} />
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}
+            title="Athlete weight, for COM momentum">
+            Weight (kg)
+            <input type="number" min={30} max={200} step={0.5} value={bodyMass} style={{ width: 60 }}
+              onChange={(e) => setBodyMass(e.target.value === "" ? "" : +e.target.value)} />
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}
+            title="All joints in the file (hands, fingers, feet, spine); off shows the 16-point skeleton">
+            <input type="checkbox" checked={fullSkeleton} onChange={(e) => setFullSkeleton(e.target.checked)} />
+            Full skeleton
+          </label>
         </div>
 
-        {/* --- PITCH METRICS (constants from JSON) --- */}
-        <div style={{display:"grid", gridTemplateColumns:"1fr 1fr", gap:10}}>
-          <div><b>Velocity</b></div><div>{pitchVelocity ?? "-"}</div>
-          <div><b>Induced Vertical Break</b></div><div>{pitchIVB ?? "-"}</div>
-          <div><b>Horizontal Break</b></div><div>{pitchHB ?? "-"}</div>
-          <div><b>Extension</b></div><div>{pitchExt ?? "-"}</div>
-        </div>
+        {/* --- PITCH / HIT METRICS (constants from JSON; hover for source/units) --- */}
+        {hitting ? (
+          <div style={{display:"grid", gridTemplateColumns:"1fr 1fr", gap:10}}>
+            <MetricTile label="Exit Velocity" m={hitMetrics?.exitVelocity} />
+            <MetricTile label="Launch Angle" m={hitMetrics?.launchAngle} />
+            <MetricTile label="Bat Speed" m={hitMetrics?.batSpeed} />
+            <MetricTile label="Attack Angle" m={hitMetrics?.attackAngle} />
+          </div>
+        ) : (
+          <div style={{display:"grid", gridTemplateColumns:"1fr 1fr", gap:10}}>
+            <MetricTile label="Velocity" m={pitchMetrics?.velocity} />
+            <MetricTile label="Induced Vertical Break" m={pitchMetrics?.ivb} />
+            <MetricTile label="Horizontal Break" m={pitchMetrics?.hb} />
+            <MetricTile label="Extension" m={pitchMetrics?.extension} digits={2} />
+          </div>
+        )}
 
         <hr style={{ borderColor: "#1e293b" }} />
 
+        {phases && (
+          <PhaseTable phases={phases} frames={frames} frame={fi} onJump={smoothJump} />
+        )}
+
+        {swing && (
+          <PhaseTable phases={swing} frames={frames} frame={fi} onJump={smoothJump} title="Swing phases" keyLabels={SWING_KEY_LABEL} />
+        )}
+        {swing && (
+          <HandPathChart points={swing.hands.points} up={groundUp} from={swing.keys.loadStart ?? 0} to={swing.keys.finish ?? frames.length - 1}
+            frame={fi} bands={phaseBands} onJump={smoothJump} />
+        )}
+
+        {sequence && brIdx != null && (
+          <KinematicSequenceChart sequence={sequence} series={biomech} frames={frames} frame={fi} release={brIdx} onJump={smoothJump} />
+        )}
+        {leadLeg && fsIdx != null && brIdx != null && (
+          <LeadLegPanel block={leadLeg} series={biomech} frames={frames} frame={fi} footStrike={fsIdx} release={brIdx} onJump={smoothJump} />
+        )}
+        {fieldFrame && (
+          <FieldPanel field={fieldFrame} show={showField} onShow={setShowField} zone={zone} pitcher={pitcherField} hitter={hitterField}
+            homeDisagrees={homeDisagrees} onJump={smoothJump} />
+        )}
+
         {/* --- BIOMECH GRAPHS --- */}
         <div style={{display:"grid", gridTemplateColumns:"1fr", gap:10}}>
-          <Sparkline series={biomech.trunkRot} idx={fi} label="Trunk Rot (°)" />
-          <Sparkline series={biomech.hipRot} idx={fi} label="Hip Rot (°)" />
-          <Sparkline series={biomech.hipMinusTrunk} idx={fi} label="Hip − Trunk (°)" />
-          <Sparkline series={biomech.rAbd} idx={fi} label="R Abd (°)" />
-          <Sparkline series={biomech.lAbd} idx={fi} label="L Abd (°)" />
-          <Sparkline series={biomech.rKnee} idx={fi} label="R Knee Flex (°)" />
-          <Sparkline series={biomech.lKnee} idx={fi} label="L Knee Flex (°)" />
-          <Sparkline series={biomech.rElbow} idx={fi} label="R Elbow Flex (°)" />
-          <Sparkline series={biomech.lElbow} idx={fi} label="L Elbow Flex (°)" />
-          <Sparkline series={biomech.stride} idx={fi} label="Stride (m)" fmt={(v)=>v.toFixed(3)} />
-          <Sparkline series={biomech.stridePct} idx={fi} label="Stride %H" fmt={(v)=>v.toFixed(1)} unit="%" />
-          <Sparkline series={biomech.linDispHome} idx={fi} label="Lin Disp → Home (m)" fmt={(v)=>v.toFixed(3)} />
+          {swing ? (
+            <>
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.pelvisAngVel} pair={pairSeries?.pelvisAngVel} idx={fi} label="Pelvis Rot Speed (°/s)" fmt={(v)=>v.toFixed(0)} />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.trunkAngVel} pair={pairSeries?.trunkAngVel} idx={fi} label="Torso Rot Speed (°/s)" fmt={(v)=>v.toFixed(0)} />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={swing.hands.speed} idx={fi} label="Hand Speed (m/s)" fmt={(v)=>v.toFixed(2)} />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.stride} pair={pairSeries?.stride} idx={fi} label="Stride (m)" fmt={(v)=>v.toFixed(3)} />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.stridePct} pair={pairSeries?.stridePct} idx={fi} label="Stride %H" fmt={(v)=>v.toFixed(1)} unit="%" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.comLateral} pair={pairSeries?.comLateral} idx={fi} label="COM Lateral Drift (m)" fmt={(v)=>v.toFixed(3)} />
+            </>
+          ) : (
+            <>
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.trunkRot} pair={pairSeries?.trunkRot} idx={fi} label="Trunk Rot (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.hipRot} pair={pairSeries?.hipRot} idx={fi} label="Hip Rot (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.hipMinusTrunk} pair={pairSeries?.hipMinusTrunk} idx={fi} label="Hip − Trunk (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.rAbd} pair={pairSeries?.rAbd} idx={fi} label="R Abd (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.lAbd} pair={pairSeries?.lAbd} idx={fi} label="L Abd (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.shoulderHAbd} pair={pairSeries?.shoulderHAbd} idx={fi} label="Throwing H-Abd (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.shoulderER} pair={pairSeries?.shoulderER} idx={fi} label="Throwing ER (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.rKnee} pair={pairSeries?.rKnee} idx={fi} label="R Knee Flex (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.lKnee} pair={pairSeries?.lKnee} idx={fi} label="L Knee Flex (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.rElbow} pair={pairSeries?.rElbow} idx={fi} label="R Elbow Flex (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.lElbow} pair={pairSeries?.lElbow} idx={fi} label="L Elbow Flex (°)" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.stride} pair={pairSeries?.stride} idx={fi} label="Stride (m)" fmt={(v)=>v.toFixed(3)} />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.stridePct} pair={pairSeries?.stridePct} idx={fi} label="Stride %H" fmt={(v)=>v.toFixed(1)} unit="%" />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.linDispHome} pair={pairSeries?.linDispHome} idx={fi} label="Lin Disp → Home (m)" fmt={(v)=>v.toFixed(3)} />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.comVelHome} pair={pairSeries?.comVelHome} idx={fi} label="COM Vel → Home (m/s)" fmt={(v)=>v.toFixed(2)} />
+              <Sparkline bands={phaseBands} low={lowConfidence} series={biomech.comLateral} pair={pairSeries?.comLateral} idx={fi} label="COM Lateral Drift (m)" fmt={(v)=>v.toFixed(3)} />
+            </>
+          )}
+          {batSeries.hasBat && (
+            <Sparkline bands={phaseBands} low={lowConfidence} series={batSeries.speedMph} idx={fi} label="Bat Head Speed (mph)" fmt={(v)=>v.toFixed(1)} />
+          )}
         </div>
 
+        <ParseReportPanel files={fileReports} />
+
         <div style={{ fontSize: 12, opacity: 0.85 }}>Debug: {debug}</div>
       </aside>
 
@@ -1370,6 +1804,8 @@ Hip-Trunk: ${metrics.hipMinusTrunk != null ? metrics.hipMinusTrunk.toFixed(1) :
 
 R Abd:   ${metrics.rAbd != null ? metrics.rAbd.toFixed(1) : "-"}
 L Abd:   ${metrics.lAbd != null ? metrics.lAbd.toFixed(1) : "-"}
+H-Abd:   ${metrics.shoulderHAbd != null ? metrics.shoulderHAbd.toFixed(1) : "-"}
+ER:      ${metrics.shoulderER != null ? metrics.shoulderER.toFixed(1) : "-"}
 
 R Knee: ${metrics.rKneeFlex != null ? metrics.rKneeFlex.toFixed(1) : "-"}
 L Knee: ${metrics.lKneeFlex != null ? metrics.lKneeFlex.toFixed(1) : "-"}
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from "react";
+import {
+  CANONICAL_JOINTS, CORE_JOINTS, DETAIL_JOINTS, isJointProfile, resolvedCount,
+  type CanonicalJoint, type JointProfile, type JointResolution,
+} from "../lib/jointProfiles";
+
+const btn: React.CSSProperties = {
+  padding: "4px 10px", borderRadius: 8, border: "1px solid #1e293b", background: "#0f172a", color: "#e2e8f0",
+};
+const field: React.CSSProperties = {
+  background: "#0f172a", color: "#e2e8f0", border: "1px solid #1e293b", borderRadius: 6, padding: "2px 6px",
+};
+
+function download(name: string, text: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(a.href);
+}
+
+// ---- Joint-name profile for the current file: pick, inspect, edit custom ones ----
+export default function JointProfilePanel({
+  file, profiles, profileId, resolution, onSelect, onProfilesChange,
+}: {
+  file?: string;
+  profiles: JointProfile[];
+  profileId: string;
+  resolution: JointResolution;
+  onSelect: (id: string) => void;
+  onProfilesChange: (custom: JointProfile[]) => void;   // custom profiles only
+}) {
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState("");
+  const importRef = useRef<HTMLInputElement>(null);
+  const profile = profiles.find((p) => p.id === profileId);
+  const custom = profiles.filter((p) => !p.builtin);
+  const missing = CORE_JOINTS.filter((c) => !resolution[c]?.length);
+
+  const saveCustom = (next: JointProfile) => onProfilesChange(custom.map((p) => (p.id === next.id ? next : p)));
+
+  const duplicate = () => {
+    if (!profile) return;
+    const copy: JointProfile = { id: `custom-${Date.now()}`, label: `${profile.label} (custom)`, map: { ...profile.map } };
+    onProfilesChange([...custom, copy]);
+    onSelect(copy.id);
+    setEditing(true);
+  };
+
+  const remove = () => {
+    if (!profile || profile.builtin) return;
+    onProfilesChange(custom.filter((p) => p.id !== profile.id));
+    setEditing(false);
+  };
+
+  const importJson = async (f?: File) => {
+    if (!f) return;
+    try {
+      const p = JSON.parse(await f.text());
+      if (!isJointProfile(p)) throw new Error("not a joint profile (needs id, label, map)");
+      const imported: JointProfile = { ...p, builtin: false };
+      onProfilesChange([...custom.filter((c) => c.id !== imported.id), imported]);
+      onSelect(imported.id);
+      setError("");
+    } catch (e: any) {
+      setError(`Import failed: ${e?.message || e}`);
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12 }}>
+      <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+        <b style={{ opacity: 0.85 }}>Joint names</b>
+        <select value={profileId} onChange={(e) => onSelect(e.target.value)} disabled={!file} style={field}>
+          {profiles.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        <span title={missing.length ? `Unresolved: ${missing.join(", ")}` : "All canonical joints resolved"}
+          style={{ color: missing.length ? "#fbbf24" : undefined, opacity: 0.85 }}>
+          {resolvedCount(resolution)}/{CORE_JOINTS.length}
+        </span>
+        <span title="Face, spine, hand and finger joints (rendering only)" style={{ opacity: 0.6 }}>
+          +{resolvedCount(resolution, DETAIL_JOINTS)} detail
+        </span>
+      </div>
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+        <button style={btn} onClick={() => setEditing((v) => !v)}>{editing ? "Close" : "Edit"}</button>
+        <button style={btn} onClick={duplicate} disabled={!profile}>Duplicate</button>
+        <button style={btn} onClick={() => profile && download(`${profile.id}.json`, JSON.stringify({ ...profile, builtin: undefined }, null, 2))}
+          disabled={!profile}>Export JSON</button>
+        <button style={btn} onClick={() => importRef.current?.click()}>Import JSON</button>
+        <input ref={importRef} type="file" accept=".json,application/json" style={{ display: "none" }}
+          onChange={(e) => { void importJson(e.target.files?.[0]); e.target.value = ""; }} />
+      </div>
+      {error && <div style={{ color: "#f87171" }}>{error}</div>}
+
+      {editing && profile && (
+        <div key={profile.id} style={{ display: "flex", flexDirection: "column", gap: 4, border: "1px solid #1e293b", borderRadius: 8, padding: 6 }}>
+          {profile.builtin ? (
+            <div style={{ opacity: 0.7 }}>Built-in profiles are read-only — duplicate to edit.</div>
+          ) : (
+            <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              Name
+              <input value={profile.label} style={{ ...field, flex: 1 }}
+                onChange={(e) => saveCustom({ ...profile, label: e.target.value })} />
+              <button style={btn} onClick={remove}>Delete</button>
+            </div>
+          )}
+          <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: "2px 6px", alignItems: "center" }}>
+            {CANONICAL_JOINTS.map((c: CanonicalJoint) => (
+              <React.Fragment key={c}>
+                <span style={{ color: resolution[c]?.length ? undefined : (CORE_JOINTS as readonly string[]).includes(c) ? "#fbbf24" : "#64748b" }} title={resolution[c]?.join(", ") ?? "not found in file"}>
+                  {c}
+                </span>
+                <input
+                  style={field}
+                  readOnly={profile.builtin}
+                  defaultValue={(profile.map[c] ?? []).join(", ")}
+                  placeholder="vendor names, comma-separated"
+                  onBlur={(e) => {
+                    if (profile.builtin) return;
+                    const names = e.target.value.split(",").map((s) => s.trim()).filter(Boolean);
+                    saveCustom({ ...profile, map: { ...profile.map, [c]: names } });
+                  }}
+                />
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import type { BiomechSeries } from "../lib/biomech";
+import { SEQUENCE_SEGMENTS, type KinematicSequence } from "../lib/kinematicSequence";
+
+const cell: React.CSSProperties = { padding: "2px 6px", borderBottom: "1px solid #1e293b", textAlign: "left" };
+
+// ---- Kinematic sequence: segment angular velocities around release, peaks marked (click to jump) ----
+export default function KinematicSequenceChart({
+  sequence, series, frames, frame, release, onJump,
+}: {
+  sequence: KinematicSequence;
+  series: BiomechSeries;
+  frames: { time: number }[];
+  frame: number;
+  release: number;
+  onJump: (frame: number) => void;
+}) {
+  const w = 260, h = 110, pad = 6;
+  const [lo, hi] = sequence.window;
+  const tBr = frames[release]?.time ?? 0;
+  const t0 = frames[lo].time, t1 = frames[hi].time;
+  const max = Math.max(1, ...sequence.peaks.map((p) => p.value));
+  const x = (i: number) => pad + (w - 2 * pad) * (((frames[i]?.time ?? t0) - t0) / Math.max(1e-6, t1 - t0));
+  const y = (v: number) => pad + (h - 2 * pad) * (1 - Math.max(0, v) / max);
+
+  const paths = SEQUENCE_SEGMENTS.map((s) => {
+    const v = series[s.key];
+    const d: string[] = [];
+    let pen = false;
+    for (let i = lo; i <= hi; i++) {
+      if (!Number.isFinite(v[i])) { pen = false; continue; }
+      d.push(`${pen ? "L" : "M"}${x(i)},${y(v[i])}`);
+      pen = true;
+    }
+    return { ...s, d: d.join(" ") };
+  });
+  const ordered = sequence.order.map((id) => SEQUENCE_SEGMENTS.find((s) => s.id === id)!.label);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+      <div style={{ opacity: 0.85 }}><b>Kinematic sequence</b></div>
+      <svg width={w} height={h} style={{ background: "#0b1224", border: "1px solid #1e293b", borderRadius: 8 }}>
+        <line x1={x(release)} x2={x(release)} y1={pad} y2={h - pad} stroke="#f472b6" strokeDasharray="3,3" opacity={0.7}>
+          <title>Release</title>
+        </line>
+        {paths.map((p) => <path key={p.id} d={p.d} fill="none" stroke={p.color} strokeWidth="1.5" />)}
+        {sequence.peaks.map((p) => (
+          <circle key={p.id} cx={x(p.frame)} cy={y(p.value)} r="3.5" fill={p.color} style={{ cursor: "pointer" }} onClick={() => onJump(p.frame)}>
+            <title>{`${p.label} peak ${p.value.toFixed(0)} °/s · frame ${p.frame}`}</title>
+          </circle>
+        ))}
+        {frame >= lo && frame <= hi && (
+          <line x1={x(frame)} x2={x(frame)} y1={pad} y2={h - pad} stroke="#ef4444" strokeDasharray="2,2" />
+        )}
+      </svg>
+      <table style={{ borderCollapse: "collapse", width: "100%", fontVariantNumeric: "tabular-nums" }}>
+        <thead>
+          <tr style={{ opacity: 0.7 }}>
+            <th style={cell}>Segment</th><th style={cell}>Peak °/s</th><th style={cell}>ms vs BR</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sequence.peaks.map((p) => (
+            <tr key={p.id} onClick={() => onJump(p.frame)} style={{ cursor: "pointer", background: p.frame === frame ? "#111a33" : undefined }}>
+              <td style={cell}><span style={{ display: "inline-block", width: 8, height: 8, borderRadius: 2, background: p.color, marginRight: 6 }} />{p.label}</td>
+              <td style={cell}>{p.value.toFixed(0)}</td>
+              <td style={cell}>{p.msFromRelease != null ? `${p.msFromRelease > 0 ? "+" : ""}${p.msFromRelease.toFixed(0)}` : "-"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ color: sequence.proximalToDistal ? "#34d399" : "#fbbf24" }} title={`Peak order: ${ordered.join(" → ")}`}>
+        {sequence.proximalToDistal ? "Proximal → distal ✓" : `Out of order: ${ordered.join(" → ")}`}
+      </div>
+      <div style={{ opacity: 0.6 }}>Window {((t0 - tBr) * 1000).toFixed(0)} to +{((t1 - tBr) * 1000).toFixed(0)} ms around release</div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from "react";
+import type { BiomechSeries } from "../lib/biomech";
+import type { Braking, LeadLegBlock, TimedValue } from "../lib/leadLeg";
+
+const cell: React.CSSProperties = { padding: "2px 6px", borderBottom: "1px solid #1e293b", textAlign: "left" };
+const ms = (v: number) => `${v > 0 ? "+" : ""}${v.toFixed(0)}`;
+
+// ---- Lead-leg block: knee flexion FS → BR, extension velocity and braking, rows jump to their frame ----
+export default function LeadLegPanel({
+  block, series, frames, frame, footStrike, release, onJump,
+}: {
+  block: LeadLegBlock;
+  series: BiomechSeries;
+  frames: { time: number }[];
+  frame: number;
+  footStrike: number;
+  release: number;
+  onJump: (frame: number) => void;
+}) {
+  const w = 260, h = 70, pad = 6;
+  const [lo, hi] = block.window;
+  const knee = block.side === "L" ? series.lKnee : series.rKnee;
+  const flex = knee.map((v) => 180 - v);
+  const vals = flex.slice(lo, hi + 1).filter(Number.isFinite);
+  const min = vals.length ? Math.min(...vals) : 0, max = vals.length ? Math.max(...vals) : 1;
+  const x = (i: number) => pad + (w - 2 * pad) * ((i - lo) / Math.max(1, hi - lo));
+  const y = (v: number) => pad + (h - 2 * pad) * (1 - (v - min) / ((max - min) || 1));
+  const d: string[] = [];
+  for (let i = lo; i <= hi; i++) if (Number.isFinite(flex[i])) d.push(`${d.length && Number.isFinite(flex[i - 1]) ? "L" : "M"}${x(i)},${y(flex[i])}`);
+
+  const row = (label: string, value: string, at?: number, timing?: string, title?: string) => (
+    <tr key={label} title={title} onClick={at != null ? () => onJump(at) : undefined}
+      style={{ cursor: at != null ? "pointer" : undefined, background: at != null && at === frame ? "#111a33" : undefined }}>
+      <td style={cell}>{label}</td>
+      <td style={cell}><b>{value}</b></td>
+      <td style={{ ...cell, opacity: 0.7 }}>{timing ?? ""}</td>
+    </tr>
+  );
+  const deg = (v?: number) => (v != null ? `${v.toFixed(0)}°` : "-");
+  const peak = (t: TimedValue | undefined, unit: string, digits = 0) => (t ? `${t.value.toFixed(digits)} ${unit}` : "-");
+  const when = (t?: TimedValue) => (t ? `FS ${ms(t.msFromFs)} · BR ${ms(t.msFromRelease)} ms` : undefined);
+  const brakeRows = (name: string, b?: Braking) => b ? [
+    row(`${name} vel → home`, `${b.velAtFs.toFixed(2)} → ${b.velAtBr.toFixed(2)} m/s`, undefined, "FS → BR",
+      "Ground-plane velocity toward home at foot strike and at release"),
+    row(`${name} peak decel`, peak(b.peakDecel, "m/s²"), b.peakDecel?.frame, when(b.peakDecel)),
+  ] : [];
+
+  const change = block.kneeFlexChange;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+      <div style={{ opacity: 0.85 }}><b>Lead-leg block</b> <span style={{ opacity: 0.7 }}>({block.side === "L" ? "left" : "right"} leg)</span></div>
+      <svg width={w} height={h} style={{ background: "#0b1224", border: "1px solid #1e293b", borderRadius: 8 }}>
+        <title>Lead knee flexion (°), foot strike to just after release</title>
+        {[footStrike, release].map((f, k) => (
+          <line key={k} x1={x(f)} x2={x(f)} y1={pad} y2={h - pad} stroke={k ? "#f472b6" : "#34d399"} strokeDasharray="3,3" opacity={0.7} />
+        ))}
+        <path d={d.join(" ")} fill="none" stroke="#93c5fd" strokeWidth="1.5" />
+        {frame >= lo && frame <= hi && <line x1={x(frame)} x2={x(frame)} y1={pad} y2={h - pad} stroke="#ef4444" strokeDasharray="2,2" />}
+      </svg>
+      <table style={{ borderCollapse: "collapse", width: "100%", fontVariantNumeric: "tabular-nums" }}>
+        <tbody>
+          {row("Knee flex @ FS", deg(block.kneeFlexAtFs), footStrike)}
+          {row("Knee flex @ BR", deg(block.kneeFlexAtBr), release)}
+          {row("Change FS → BR", change != null ? `${change > 0 ? "+" : ""}${change.toFixed(0)}°` : "-", undefined,
+            change != null ? (change < 0 ? "extends" : "collapses") : undefined, "Negative: the lead knee straightens into release")}
+          {row("Peak knee ext vel", peak(block.peakKneeExtVel, "°/s"), block.peakKneeExtVel?.frame, when(block.peakKneeExtVel))}
+          {brakeRows("Ankle", block.ankle)}
+          {brakeRows("Hip", block.hip)}
+        </tbody>
+      </table>
+    </div>
+  );
+}
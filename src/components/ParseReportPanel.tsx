@@ -0,0 +1,76 @@
+import React from "react";
+import type { ParseReport } from "../lib/parseHawkEye";
+
+export interface FileReport {
+  file: string;
+  tracks: number;                // playable tracks this file contributed
+  report?: ParseReport;
+  error?: string;                // JSON / read failure — no report in that case
+}
+
+const cell: React.CSSProperties = { padding: "2px 6px", borderBottom: "1px solid #1e293b", textAlign: "left" };
+
+function droppedSummary(d: Record<string, number>) {
+  const entries = Object.entries(d).sort((a, b) => b[1] - a[1]);
+  if (!entries.length) return "-";
+  return entries.slice(0, 4).map(([k, n]) => `${k}×${n}`).join(", ") + (entries.length > 4 ? ` +${entries.length - 4}` : "");
+}
+
+// ---- Per-file diagnostics (why a file did or did not produce tracks) ----
+export default function ParseReportPanel({ files }: { files: FileReport[] }) {
+  if (!files.length) return null;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12 }}>
+      <div style={{ opacity: 0.85 }}><b>File diagnostics</b></div>
+      {files.map((f, i) => {
+        const bad = !!f.error || f.tracks === 0;
+        const r = f.report;
+        return (
+          <details key={i} open={bad} style={{ border: "1px solid #1e293b", borderRadius: 8, padding: "4px 8px", background: "#0b1224" }}>
+            <summary style={{ cursor: "pointer", color: bad ? "#fbbf24" : "#e2e8f0" }}>
+              {f.file} — {f.error ? "error" : `${f.tracks} track(s)`}
+            </summary>
+            {f.error && <div style={{ color: "#f87171", marginTop: 4 }}>{f.error}</div>}
+            {r && (
+              <div style={{ display: "flex", flexDirection: "column", gap: 4, marginTop: 4 }}>
+                {r.notes.map((n, k) => <div key={k} style={{ color: "#fbbf24" }}>• {n}</div>)}
+                <div>
+                  Schema: <b>{r.adapter ?? "none"}</b> · People found: <b>{r.people.length}</b> ·
+                  Ball: {r.hasBall ? "yes" : "no"} · Bat: {r.hasBat ? "yes" : "no"} · Events: {r.events}
+                </div>
+                {!!r.people.length && (
+                  <table style={{ borderCollapse: "collapse", width: "100%", fontVariantNumeric: "tabular-nums" }}>
+                    <thead>
+                      <tr style={{ opacity: 0.7 }}>
+                        <th style={cell}>Role</th><th style={cell}>Frames</th><th style={cell}>FPS</th>
+                        <th style={cell}>Gaps/Dup</th><th style={cell}>Dropped joints</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {r.people.map((p) => (
+                        <tr key={p.index} title={p.skipped ? `Skipped: ${p.skipped}` : `${p.name ?? p.personId ?? ""}`}
+                          style={{ color: p.skipped ? "#f87171" : undefined }}>
+                          <td style={cell}>{p.rawRole || "(none)"}{p.role !== p.rawRole.toLowerCase() ? ` → ${p.role}` : ""}</td>
+                          <td style={cell}>{p.frames}{p.untimed ? ` (−${p.untimed} untimed)` : ""}</td>
+                          <td style={cell}>{Math.round(p.fps)} <span style={{ opacity: 0.6 }}>({p.fpsSource})</span></td>
+                          <td style={cell}>{p.gaps}/{p.duplicates}</td>
+                          <td style={cell}>{droppedSummary(p.droppedJoints)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {!!r.unrecognizedRoles.length && (
+                  <div>Unrecognized roles: <span style={{ color: "#fbbf24" }}>{r.unrecognizedRoles.join(", ")}</span></div>
+                )}
+                {!!r.missingMetrics.length && (
+                  <div>Missing metrics: <span style={{ opacity: 0.8 }}>{r.missingMetrics.join(", ")}</span></div>
+                )}
+              </div>
+            )}
+          </details>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React from "react";
+import { PHASE_KEY_LABEL, type PhaseSegmentation } from "../lib/phases";
+
+const cell: React.CSSProperties = { padding: "2px 6px", borderBottom: "1px solid #1e293b", textAlign: "left" };
+
+// ---- Delivery / swing phases: durations, plus the keyframes that bound them (click to jump) ----
+export default function PhaseTable<K extends string>({
+  phases, frames, frame, onJump, title = "Delivery phases", keyLabels = PHASE_KEY_LABEL as Record<K, string>,
+}: {
+  phases: PhaseSegmentation<K>;
+  frames: { time: number }[];
+  frame: number;
+  onJump: (frame: number) => void;
+  title?: string;
+  keyLabels?: Record<K, string>;
+}) {
+  const ms = (a: number, b: number) => ((frames[b]?.time ?? 0) - (frames[a]?.time ?? 0)) * 1000;
+  const missing = (Object.keys(keyLabels) as K[]).filter((k) => phases.keys[k] == null);
+  const total = phases.phases.length
+    ? ms(phases.phases[0].start, phases.phases[phases.phases.length - 1].end)
+    : 0;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+      <div style={{ opacity: 0.85 }}><b>{title}</b></div>
+      <table style={{ borderCollapse: "collapse", width: "100%", fontVariantNumeric: "tabular-nums" }}>
+        <thead>
+          <tr style={{ opacity: 0.7 }}>
+            <th style={cell}>Phase</th><th style={cell}>Frames</th><th style={cell}>ms</th><th style={cell}>%</th>
+          </tr>
+        </thead>
+        <tbody>
+          {phases.phases.map((p) => {
+            const d = ms(p.start, p.end);
+            const here = frame >= p.start && frame < p.end;
+            return (
+              <tr key={p.id} onClick={() => onJump(p.start)} style={{ cursor: "pointer", background: here ? "#111a33" : undefined }}>
+                <td style={cell}><span style={{ display: "inline-block", width: 8, height: 8, borderRadius: 2, background: p.color, marginRight: 6 }} />{p.label}</td>
+                <td style={cell}>{p.start}–{p.end}</td>
+                <td style={cell}>{d.toFixed(0)}</td>
+                <td style={cell}>{total > 0 ? ((100 * d) / total).toFixed(0) : "-"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {!!missing.length && (
+        <div style={{ color: "#fbbf24" }} title="Phases bounded by these keyframes are not shown">
+          Not found: {missing.map((k) => keyLabels[k]).join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
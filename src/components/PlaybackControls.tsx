@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from "react";
+import { frameAtTime } from "../lib/biomech";
+
+export const PLAYBACK_SPEEDS = [0.05, 0.1, 0.25, 0.5, 1, 2];
+
+/** Inclusive frame range played over and over (A → B). */
+export interface LoopRange {
+  a: number;
+  b: number;
+}
+
+/**
+ * Play / pause on the track's own timestamps: a clock runs at `speed` × wall time and the frame
+ * shown is the last one at or before it. Scrubbing while playing moves the clock with it.
+ */
+export function usePlayback(frames: { time: number }[], frame: number, setFrame: (f: number) => void) {
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+  const frameRef = useRef(frame);
+  frameRef.current = frame;
+
+  useEffect(() => {
+    if (!playing) return;
+    const n = frames.length;
+    if (n < 2) { setPlaying(false); return; }
+    const lo = loop ? Math.max(0, Math.min(loop.a, loop.b)) : 0;
+    const hi = loop ? Math.min(n - 1, Math.max(loop.a, loop.b)) : n - 1;
+    const t = (i: number) => frames[i].time;
+    // Start inside the range; from the end (or outside the loop) start over
+    let shown = frameRef.current >= lo && frameRef.current < hi ? frameRef.current : lo;
+    let clock = t(shown);
+    if (shown !== frameRef.current) setFrame(shown);
+
+    let last = performance.now();
+    let raf = 0;
+    const tick = (now: number) => {
+      if (frameRef.current !== shown) clock = t(Math.min(n - 1, Math.max(0, frameRef.current)));
+      clock += ((now - last) / 1000) * speed;
+      last = now;
+      if (clock > t(hi)) {
+        if (!loop || hi <= lo) { setFrame(hi); setPlaying(false); return; }
+        clock = t(lo) + ((clock - t(lo)) % Math.max(1e-6, t(hi) - t(lo)));
+      }
+      const i = frameAtTime(frames, clock, lo, hi);
+      if (i !== shown) { shown = i; setFrame(i); }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playing, speed, loop, frames]);
+
+  const step = (d: number) => {
+    setPlaying(false);
+    setFrame(Math.min(frames.length - 1, Math.max(0, frameRef.current + d)));
+  };
+  const faster = (d: 1 | -1) => {
+    const k = PLAYBACK_SPEEDS.indexOf(speed) + d;
+    setSpeed(PLAYBACK_SPEEDS[Math.min(PLAYBACK_SPEEDS.length - 1, Math.max(0, k))] ?? 1);
+  };
+  return { playing, setPlaying, toggle: () => setPlaying((p) => !p), speed, setSpeed, faster, loop, setLoop, step };
+}
+
+export type Playback = ReturnType<typeof usePlayback>;
+
+const btn: React.CSSProperties = { padding: "4px 10px", borderRadius: 8, border: "1px solid #1e293b", background: "#0f172a", color: "#e2e8f0", fontSize: 12 };
+
+export const SHORTCUTS = [
+  ["Space", "play / pause"], ["← →", "step a frame (Shift: 10)"], ["↑ ↓", "faster / slower"],
+  ["Home End", "first / last frame"], ["F R", "foot strike / release"], ["L", "loop FS → BR"],
+  ["A B", "loop start / end here"], ["Esc", "clear loop"], ["D", "dump debug"],
+];
+
+// ---- Transport: step, play/pause, speed, A–B loop (FS → BR preset) ----
+export default function PlaybackControls({
+  playback, frame, footStrike, release,
+}: {
+  playback: Playback;
+  frame: number;
+  footStrike: number | null;
+  release: number | null;
+}) {
+  const { playing, toggle, speed, setSpeed, loop, setLoop, step } = playback;
+  const canFsBr = footStrike != null && release != null && release > footStrike;
+  const fsBrOn = !!loop && canFsBr && loop.a === footStrike && loop.b === release;
+  const on = (active: boolean): React.CSSProperties => (active ? { ...btn, background: "#1d4ed8", borderColor: "#1d4ed8" } : btn);
+
+  return (
+    <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}
+      title={SHORTCUTS.map(([k, what]) => `${k}: ${what}`).join("\n")}>
+      <button style={btn} onClick={() => step(-1)} title="Previous frame (←)">◀︎|</button>
+      <button style={{ ...btn, minWidth: 44 }} onClick={toggle} title="Play / pause (Space)">{playing ? "❚❚" : "▶︎"}</button>
+      <button style={btn} onClick={() => step(1)} title="Next frame (→)">|▶︎</button>
+      <select value={speed} onChange={(e) => setSpeed(+e.target.value)} title="Playback speed (↑ ↓)"
+        style={{ ...btn, padding: "4px 6px" }}>
+        {PLAYBACK_SPEEDS.map((s) => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <button style={on(fsBrOn)} disabled={!canFsBr} title="Loop foot strike → release (L)"
+        onClick={() => setLoop(fsBrOn ? null : { a: footStrike!, b: release! })}>
+        ⟲ FS→BR
+      </button>
+      <button style={btn} onClick={() => setLoop({ a: frame, b: loop ? Math.max(frame, loop.b) : frame })} title="Loop start here (A)">A</button>
+      <button style={btn} onClick={() => setLoop({ a: loop ? Math.min(frame, loop.a) : frame, b: frame })} title="Loop end here (B)">B</button>
+      {loop && (
+        <span style={{ fontSize: 12, opacity: 0.8 }}>
+          loop {Math.min(loop.a, loop.b)}–{Math.max(loop.a, loop.b)}{" "}
+          <button style={{ ...btn, padding: "0 6px" }} onClick={() => setLoop(null)} title="Clear loop (Esc)">×</button>
+        </span>
+      )}
+    </div>
+  );
+}
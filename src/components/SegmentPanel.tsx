@@ -0,0 +1,82 @@
+import React from "react";
+import { OUTLIER_FRAC, type SegmentCalibration } from "../lib/segmentCalibration";
+
+const cm = (m: number) => (m * 100).toFixed(1);
+
+// ---- Segment lengths: calibrated length per segment, per-frame deviation curves, rigid toggle ----
+export default function SegmentPanel({
+  calibration, frame, rigid, onRigid,
+}: {
+  calibration: SegmentCalibration;
+  frame: number;
+  rigid: boolean;
+  onRigid: (on: boolean) => void;
+}) {
+  const { segments, height } = calibration;
+  const n = Math.max(0, ...segments.map((s) => s.deviation.length));
+  const w = 260, h = 80, pad = 6;
+  // Deviation as a share of each segment's own length, so arms and legs share one axis
+  const pcts = segments.map((s) => s.deviation.map((d) => (d / s.length) * 100));
+  const lim = Math.max(OUTLIER_FRAC * 100 * 1.5, ...pcts.flat().filter(Number.isFinite).map(Math.abs));
+  const x = (i: number) => pad + (w - 2 * pad) * (i / Math.max(1, n - 1));
+  const y = (v: number) => pad + (h - 2 * pad) * (0.5 - v / (2 * lim));
+  const path = (s: number[]) => s.map((v, i) => (Number.isFinite(v) ? `${i && Number.isFinite(s[i - 1]) ? "L" : "M"}${x(i)},${y(v)}` : "")).join(" ");
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <b style={{ opacity: 0.85 }}>Segments</b>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}
+          title="Hold upper arms, forearms, thighs and shanks at their calibrated length; the distal joint and everything below it slide along the segment">
+          <input type="checkbox" checked={rigid} onChange={(e) => onRigid(e.target.checked)} />
+          Rigid lengths
+        </label>
+        <span style={{ opacity: 0.6 }} title="Median of the height each segment implies (Drillis & Contini proportions)">
+          {height ? `≈ ${height.toFixed(2)} m tall` : ""}
+        </span>
+      </div>
+      {!segments.length ? (
+        <div style={{ opacity: 0.6 }}>No segment has both ends tracked.</div>
+      ) : (
+        <>
+          <table style={{ borderCollapse: "collapse", fontVariantNumeric: "tabular-nums" }}>
+            <thead>
+              <tr style={{ opacity: 0.6, textAlign: "right" }}>
+                <th style={{ textAlign: "left", fontWeight: 400 }}>Segment</th>
+                <th style={{ fontWeight: 400 }}>cm</th>
+                <th style={{ fontWeight: 400 }} title="RMS deviation from the calibrated length">± RMS</th>
+                <th style={{ fontWeight: 400 }} title={`Frames off by more than ${OUTLIER_FRAC * 100}%`}>off</th>
+                <th style={{ fontWeight: 400 }}>now</th>
+              </tr>
+            </thead>
+            <tbody>
+              {segments.map((s) => {
+                const d = s.deviation[frame];
+                const bad = Number.isFinite(d) && Math.abs(d) > OUTLIER_FRAC * s.length;
+                return (
+                  <tr key={s.spec.id} style={{ textAlign: "right" }}>
+                    <td style={{ textAlign: "left" }}><span style={{ color: s.spec.color }}>■</span> {s.spec.label}</td>
+                    <td>{cm(s.length)}</td>
+                    <td>{cm(s.rms)}</td>
+                    <td style={{ color: s.outlierPct > 5 ? "#fbbf24" : undefined }}>{s.outlierPct.toFixed(0)}%</td>
+                    <td style={{ color: bad ? "#f87171" : undefined }}>{Number.isFinite(d) ? `${d >= 0 ? "+" : ""}${cm(d)}` : "-"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <svg width={w} height={h} style={{ background: "#0b1224", border: "1px solid #1e293b", borderRadius: 8 }}>
+            <title>Length deviation per frame (% of calibrated length)</title>
+            {[-OUTLIER_FRAC * 100, OUTLIER_FRAC * 100].map((v) => (
+              <line key={v} x1={pad} x2={w - pad} y1={y(v)} y2={y(v)} stroke="#334155" strokeDasharray="3,3" />
+            ))}
+            <line x1={pad} x2={w - pad} y1={y(0)} y2={y(0)} stroke="#334155" />
+            {pcts.map((p, k) => <path key={segments[k].spec.id} d={path(p)} fill="none" stroke={segments[k].spec.color} strokeWidth="1" />)}
+            <line x1={x(frame)} x2={x(frame)} y1={pad} y2={h - pad} stroke="#ef4444" strokeDasharray="2,2" />
+          </svg>
+          <div style={{ opacity: 0.6 }}>Deviation from calibrated length, ±{OUTLIER_FRAC * 100}% dashed</div>
+        </>
+      )}
+    </div>
+  );
+}
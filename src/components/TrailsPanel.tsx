@@ -0,0 +1,68 @@
+import React from "react";
+import { SPEED_GRADIENT_CSS, TRAIL_JOINTS, type Trail, type TrailJoint } from "../lib/trails";
+
+export type TrailSpan = "keys" | "toNow" | "all" | "loop";
+
+/** A pose drawn see-through at a keyframe. */
+export interface GhostPose {
+  id: string;
+  label: string;
+  frame: number;
+  color: string;
+}
+
+const field: React.CSSProperties = { background: "#0f172a", color: "#e2e8f0", border: "1px solid #1e293b", borderRadius: 6, fontSize: 12 };
+
+// ---- Motion trails (speed-coloured joint paths) and ghost poses at keyframes ----
+export default function TrailsPanel({
+  joints, onJoints, span, onSpan, spanLabels, trails, ghosts, ghostsOn, onGhosts,
+}: {
+  joints: TrailJoint[];
+  onJoints: (ids: TrailJoint[]) => void;
+  span: TrailSpan;
+  onSpan: (s: TrailSpan) => void;
+  spanLabels: Partial<Record<TrailSpan, string>>;  // spans offered for this track
+  trails: Trail[];
+  ghosts: GhostPose[];
+  ghostsOn: string[];
+  onGhosts: (ids: string[]) => void;
+}) {
+  const toggle = <T,>(list: T[], v: T) => (list.includes(v) ? list.filter((x) => x !== v) : [...list, v]);
+  const top = new Map(trails.map((t) => [t.id, t.maxSpeed]));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <b style={{ opacity: 0.85 }}>Trails</b>
+        <select value={span} onChange={(e) => onSpan(e.target.value as TrailSpan)} style={{ ...field, marginLeft: "auto" }}>
+          {(Object.keys(spanLabels) as TrailSpan[]).map((s) => <option key={s} value={s}>{spanLabels[s]}</option>)}
+        </select>
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "2px 8px" }}>
+        {TRAIL_JOINTS.map((j) => (
+          <label key={j.id} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            <input type="checkbox" checked={joints.includes(j.id)} onChange={() => onJoints(toggle(joints, j.id))} />
+            {j.label}
+            {(top.get(j.id) ?? 0) > 0 && <span style={{ opacity: 0.6 }}>· {top.get(j.id)!.toFixed(1)} m/s</span>}
+          </label>
+        ))}
+      </div>
+      {!!joints.length && (
+        <div style={{ display: "flex", alignItems: "center", gap: 6, opacity: 0.8 }} title="Each trail is graded against its own top speed (listed next to the joint)">
+          slow <span style={{ flex: 1, height: 6, borderRadius: 3, background: SPEED_GRADIENT_CSS }} /> fast
+        </div>
+      )}
+      {!!ghosts.length && (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+          <span style={{ opacity: 0.85 }}>Ghosts</span>
+          {ghosts.map((g) => (
+            <label key={g.id} style={{ display: "flex", alignItems: "center", gap: 4 }} title={`Frame ${g.frame}`}>
+              <input type="checkbox" checked={ghostsOn.includes(g.id)} onChange={() => onGhosts(toggle(ghostsOn, g.id))} />
+              <span style={{ color: g.color }}>{g.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
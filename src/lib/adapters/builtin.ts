@@ -0,0 +1,70 @@
+// src/lib/adapters/builtin.ts
+// Shapes seen in real exports so far. Each maps its layout onto Hawk-Eye person nodes for parsePeople.
+
+import { parseHawkEyeJson, parsePeople } from "../parseHawkEye";
+import { registerAdapter, type TrackingAdapter } from "./registry";
+
+function hasJointFrames(p: any) {
+  return Array.isArray(p?.joints) && p.joints.length > 0;
+}
+
+// Standard Hawk-Eye: samples.people[].joints
+export const hawkEyeSamplesAdapter: TrackingAdapter = {
+  id: "hawkeye-samples",
+  label: "Hawk-Eye samples.people",
+  detect: (root) => (Array.isArray(root?.samples?.people) && root.samples.people.some(hasJointFrames) ? 100 : 0),
+  parse: (root) => parseHawkEyeJson(root),
+};
+
+// Flattened exports that hoist people to the root
+export const rootPeopleAdapter: TrackingAdapter = {
+  id: "root-people",
+  label: "people[].joints at root",
+  detect: (root) => (Array.isArray(root?.people) && root.people.some(hasJointFrames) ? 80 : 0),
+  parse: (root) => parsePeople(root, root.people),
+};
+
+// tracks[].frames[] where each frame is { time, joints } (or a bare joint map)
+export const tracksFramesAdapter: TrackingAdapter = {
+  id: "tracks-frames",
+  label: "tracks[].frames[]",
+  detect: (root) =>
+    Array.isArray(root?.tracks) && root.tracks.some((t: any) => Array.isArray(t?.frames) && t.frames.length) ? 60 : 0,
+  parse: (root) =>
+    parsePeople(
+      root,
+      root.tracks.map((t: any) => ({
+        role: t?.role ?? t?.type,
+        personId: t?.personId ?? t?.id,
+        name: t?.name,
+        times: Array.isArray(t?.times) ? t.times : undefined,
+        joints: (Array.isArray(t?.frames) ? t.frames : []).map((fr: any) => {
+          const J = fr?.joints && typeof fr.joints === "object" ? fr.joints : fr;
+          return { ...J, time: fr?.time ?? J?.time, timeUTC: fr?.timeUTC ?? J?.timeUTC };
+        }),
+      }))
+    ),
+};
+
+// Last resort: any object anywhere in the file that carries a joints[] array
+function scanForPeople(root: any): any[] {
+  const found: any[] = [];
+  const seen = new Set<any>();
+  (function scan(node: any, depth: number) {
+    if (!node || typeof node !== "object" || seen.has(node) || depth > 8) return;
+    seen.add(node);
+    if (Array.isArray(node)) { for (const v of node) scan(v, depth + 1); return; }
+    if (hasJointFrames(node)) { found.push(node); return; }
+    for (const k of Object.keys(node)) scan(node[k], depth + 1);
+  })(root, 0);
+  return found;
+}
+
+export const deepScanAdapter: TrackingAdapter = {
+  id: "deep-scan",
+  label: "Recursive joints[] scan",
+  detect: (root) => (scanForPeople(root).length ? 1 : 0),
+  parse: (root) => parsePeople(root, scanForPeople(root)),
+};
+
+for (const a of [hawkEyeSamplesAdapter, rootPeopleAdapter, tracksFramesAdapter, deepScanAdapter]) registerAdapter(a);
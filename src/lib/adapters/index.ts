@@ -0,0 +1,4 @@
+// src/lib/adapters/index.ts
+import "./builtin";
+
+export * from "./registry";
@@ -0,0 +1,53 @@
+// src/lib/adapters/registry.ts
+// Schema adapters: each recognizes one vendor / schema revision and maps it to ParsedTrack[].
+
+import type { ParseResult } from "../parseHawkEye";
+
+export interface TrackingAdapter {
+  id: string;
+  label: string;
+  /** 0 = not this schema; higher wins when several adapters recognize a file. */
+  detect(root: any): number;
+  parse(root: any): ParseResult;
+}
+
+const adapters: TrackingAdapter[] = [];
+
+/** Add (or replace, by id) an adapter. New schema revisions plug in here, not in the core parser. */
+export function registerAdapter(adapter: TrackingAdapter) {
+  const i = adapters.findIndex((a) => a.id === adapter.id);
+  if (i >= 0) adapters[i] = adapter;
+  else adapters.push(adapter);
+}
+
+export function listAdapters(): readonly TrackingAdapter[] {
+  return adapters;
+}
+
+export function selectAdapter(root: any): TrackingAdapter | undefined {
+  let best: TrackingAdapter | undefined;
+  let bestScore = 0;
+  for (const a of adapters) {
+    let score = 0;
+    try { score = a.detect(root); } catch { score = 0; }
+    if (score > bestScore) { bestScore = score; best = a; }
+  }
+  return best;
+}
+
+/** Parse any supported tracking JSON with the best-matching adapter; the report names which one ran. */
+export function parseTrackingJson(root: any): ParseResult {
+  const adapter = selectAdapter(root);
+  if (!adapter) {
+    return {
+      tracks: [],
+      report: {
+        people: [], unrecognizedRoles: [], missingMetrics: [], hasBall: false, hasBat: false, events: 0,
+        notes: [`No adapter recognized this file (tried: ${adapters.map((a) => a.id).join(", ")})`],
+      },
+    };
+  }
+  const result = adapter.parse(root);
+  result.report.adapter = adapter.id;
+  return result;
+}
@@ -0,0 +1,432 @@
+// src/lib/biomech.ts
+// Angle helpers and the full-clip biomech series. Pure (no React/DOM) so the parse worker can run it.
+
+import * as THREE from "three";
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { segmentalCOM } from "./centerOfMass";
+
+export const HOME_BASE = new THREE.Vector3(-1, 0, 0); // pitcher->catcher along -X
+
+export type Hand = "R" | "L" | "?";
+
+export interface BiomechSeries {
+  trunkRot: number[];
+  hipRot: number[];
+  hipMinusTrunk: number[];
+  rAbd: number[];                // humeral elevation (ISB), each arm
+  lAbd: number[];
+  rKnee: number[];
+  lKnee: number[];
+  rElbow: number[];
+  lElbow: number[];
+  stride: number[];
+  stridePct: number[];
+  linDispHome: number[];
+  // Throwing-arm shoulder angles (deg, see shoulderAngles)
+  shoulderHAbd: number[];
+  shoulderER: number[];
+  // Whole-body centre of mass (lib/centerOfMass): position, velocity toward home, sideways drift from the first frame
+  comX: number[];
+  comY: number[];
+  comZ: number[];
+  comVelHome: number[];          // m/s
+  comLateral: number[];          // m, + to the right of the pitcher → home line
+  // Angular velocities (deg/s) for the kinematic sequence; arm values are the throwing side
+  pelvisAngVel: number[];
+  trunkAngVel: number[];
+  elbowExtVel: number[];         // + while the elbow extends
+  shoulderIRVel: number[];       // + while the humerus rotates internally
+}
+
+export interface BiomechOptions {
+  flipHome: boolean;
+  bodyHeight: number | "";       // metres; "" = estimate from head-to-ankle each frame
+  hand: Hand;                    // throwing arm for the arm angles and velocities ("?" → right)
+  flipHAbd?: boolean;            // report horizontal abduction with the opposite sign
+  up: V3;                        // ground normal of the clip (fieldGeometry's groundNormalOf)
+}
+
+export function wrap180(d: number) {
+  if (!isFinite(d)) return d;
+  while (d > 180) d -= 360;
+  while (d < -180) d += 360;
+  return d;
+}
+export function unwrapToPrev(newDeg: number, prevDeg: number) {
+  let cand = newDeg;
+  while (prevDeg - cand > 180) cand += 360;
+  while (cand - prevDeg > 180) cand -= 360;
+  return wrap180(cand);
+}
+export function yawDeg(ref: THREE.Vector3, v: THREE.Vector3) {
+  // Signed angle between ref and v on ground (XY) plane
+  const R = new THREE.Vector3(ref.x, ref.y, 0).normalize();
+  const V = new THREE.Vector3(v.x, v.y, 0).normalize();
+  const cross = R.x * V.y - R.y * V.x;
+  const dot = R.dot(V);
+  return THREE.MathUtils.radToDeg(Math.atan2(cross, dot));
+}
+/**
+ * The two samples around t and the fraction u of the way from a to b, for linear interpolation;
+ * undefined outside the samples (time-sorted).
+ */
+export function sampleAt<T extends { time: number }>(samples: T[] | undefined, t?: number): { a: T; b: T; u: number } | undefined {
+  if (!samples?.length || t == null) return undefined;
+  if (t < samples[0].time || t > samples[samples.length - 1].time) return undefined;
+  let lo = 0, hi = samples.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].time <= t) lo = mid; else hi = mid;
+  }
+  const a = samples[lo], b = samples[hi];
+  const span = b.time - a.time;
+  return { a, b, u: span > 1e-9 ? (t - a.time) / span : 0 };
+}
+
+/** Last frame at or before t within [lo, hi] (binary search; frame times ascend). */
+export function frameAtTime(frames: { time: number }[], t: number, lo = 0, hi = frames.length - 1): number {
+  if (t <= frames[lo].time) return lo;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid].time <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+export function finiteDiff(vals: number[], times: number[]) {
+  const n = vals.length, v = new Array(n).fill(0);
+  for (let i = 1; i < n; i++) {
+    const dt = Math.max(1e-6, (times[i] ?? 0) - (times[i - 1] ?? 0));
+    v[i] = (vals[i] - vals[i - 1]) / dt;
+  }
+  return v;
+}
+export function movingAvg(a: number[], k = 3) {
+  if (k <= 1) return a.slice();
+  const n = a.length, out = new Array(n).fill(0);
+  const r = Math.floor(k / 2);
+  for (let i = 0; i < n; i++) {
+    let s = 0, c = 0;
+    for (let j = i - r; j <= i + r; j++) {
+      if (j >= 0 && j < n) { s += a[j]; c++; }
+    }
+    out[i] = c ? s / c : a[i];
+  }
+  return out;
+}
+export function fold90(deg: number) {
+  const d = Math.abs(deg % 360);
+  const d180 = d > 180 ? 360 - d : d;
+  return Math.min(d180, 180 - d180);
+}
+export function signedAngleInPlane(a: THREE.Vector3, b: THREE.Vector3, planeNormal: THREE.Vector3) {
+  const A = a.clone().normalize();
+  const B = b.clone().normalize();
+  const cross = new THREE.Vector3().crossVectors(A, B);
+  const sin = cross.dot(planeNormal);
+  const cos = A.dot(B);
+  return THREE.MathUtils.radToDeg(Math.atan2(sin, cos));
+}
+
+/**
+ * Thorax axes from one frame: T up (pelvis → chest), R to the right (left → right shoulder, made
+ * orthogonal to T), A anterior (T × R). Missing centre joints fall back to hip / shoulder midpoints.
+ */
+export function thoraxBasis(J: Record<string, V3>): { T: THREE.Vector3; R: THREE.Vector3; A: THREE.Vector3 } {
+  const { lShoulder: lSh, rShoulder: rSh, lHip, rHip } = J;
+  const mid = (a: V3, b: V3): V3 => [(a[0]+b[0])/2, (a[1]+b[1])/2, (a[2]+b[2])/2];
+  const pelvis = J["pelvis"] || (lHip && rHip ? mid(lHip, rHip) : undefined);
+  const chest = J["chest"] || J["neck"] || (lSh && rSh ? mid(lSh, rSh) : undefined);
+  const T = (() => {
+    if (pelvis && chest) {
+      const t = new THREE.Vector3(chest[0]-pelvis[0], chest[1]-pelvis[1], chest[2]-pelvis[2]);
+      if (t.lengthSq() > 1e-10) return t.normalize();
+    }
+    return new THREE.Vector3(0,1,0);
+  })();
+  const R = (() => {
+    if (lSh && rSh) {
+      const r = new THREE.Vector3(rSh[0]-lSh[0], rSh[1]-lSh[1], rSh[2]-lSh[2]);
+      if (r.lengthSq() > 1e-10) return r.normalize();
+    }
+    const tmp = Math.abs(T.y) < 0.9 ? new THREE.Vector3(0,1,0) : new THREE.Vector3(1,0,0);
+    return tmp.clone().sub(T.clone().multiplyScalar(tmp.dot(T))).normalize();
+  })();
+  return { T, R, A: new THREE.Vector3().crossVectors(T, R) };
+}
+
+export interface ShoulderAngles {
+  abduction: number;             // humeral elevation: 0 arm at the side, 90 level, 180 overhead
+  horizontalAbduction?: number;  // + behind the shoulder line (plane of elevation, sign flipped); undefined near 0/180 elevation
+  externalRotation?: number;     // + forearm up and back; undefined with the elbow nearly straight
+}
+
+const ELBOW_STRAIGHT_DEG = 20;   // forearm too close to the humeral axis to define rotation
+const GIMBAL_DEG = 10;           // elevation this close to 0/180 leaves the plane of elevation undefined
+
+/**
+ * ISB-style humerus-relative-to-thorax angles (Y–X–Y: plane of elevation, elevation, axial rotation)
+ * for one arm. Axes are thorax anterior / up / lateral, mirrored for the left arm so both read the same.
+ */
+export function shoulderAngles(
+  J: Record<string, V3>, side: "L" | "R", basis = thoraxBasis(J),
+): ShoulderAngles | undefined {
+  const sh = J[side === "R" ? "rShoulder" : "lShoulder"];
+  const el = J[side === "R" ? "rElbow" : "lElbow"];
+  const wr = J[side === "R" ? "rWrist" : "lWrist"];
+  if (!sh || !el) return undefined;
+  const lateral = side === "R" ? 1 : -1;
+  const local = (a: V3, b: V3) => {
+    const v = new THREE.Vector3(b[0]-a[0], b[1]-a[1], b[2]-a[2]);
+    return new THREE.Vector3(v.dot(basis.A), v.dot(basis.T), lateral * v.dot(basis.R));
+  };
+  const u = local(sh, el);
+  if (u.lengthSq() < 1e-10) return undefined;
+  u.normalize();
+  const abduction = THREE.MathUtils.radToDeg(Math.acos(Math.max(-1, Math.min(1, -u.y))));
+
+  // Plane of elevation: 0 straight out to the side, + toward the front
+  const gimbal = abduction < GIMBAL_DEG || abduction > 180 - GIMBAL_DEG;
+  const plane = gimbal ? 0 : Math.atan2(u.x, u.z);
+  const horizontalAbduction = gimbal ? undefined : -THREE.MathUtils.radToDeg(plane);
+
+  // Axial rotation: forearm about the humerus from the zero-rotation reference (thorax anterior carried by the plane)
+  let externalRotation: number | undefined;
+  if (wr) {
+    const f = local(el, wr);
+    const fp = f.clone().sub(u.clone().multiplyScalar(f.dot(u)));
+    const bend = THREE.MathUtils.radToDeg(f.angleTo(u));
+    if (fp.lengthSq() > 1e-8 && bend > ELBOW_STRAIGHT_DEG) {
+      const ref = new THREE.Vector3(Math.cos(plane), 0, -Math.sin(plane));
+      externalRotation = signedAngleInPlane(ref, fp, u);
+    }
+  }
+  return { abduction, horizontalAbduction, externalRotation };
+}
+
+/** Angle series made continuous across ±180 (gaps are skipped, not bridged with values). */
+export function unwrapSeries(deg: number[]): number[] {
+  const un = deg.slice();
+  let prev: number | null = null;
+  for (let i = 0; i < un.length; i++) {
+    if (!Number.isFinite(un[i])) continue;
+    if (prev != null) un[i] = prev + wrap180(un[i] - prev);
+    prev = un[i];
+  }
+  return un;
+}
+
+/** d(angle)/dt in deg/s: unwrapped, central differences over finite neighbours, optionally smoothed. */
+export function angularVelocity(deg: number[], times: number[], smooth = 1): number[] {
+  return linearVelocity(unwrapSeries(deg), times, smooth);
+}
+
+/**
+ * d/dt by central differences over finite neighbours; NaN where a neighbour is missing. Frames are
+ * already low-pass filtered per track (lib/filtering), so no smoothing by default.
+ */
+export function linearVelocity(vals: number[], times: number[], smooth = 1): number[] {
+  const n = vals.length;
+  const v = new Array<number>(n).fill(NaN);
+  for (let i = 0; i < n; i++) {
+    const a = i > 0 && Number.isFinite(vals[i - 1]) ? i - 1 : i;
+    const b = i < n - 1 && Number.isFinite(vals[i + 1]) ? i + 1 : i;
+    if (a === b || !Number.isFinite(vals[a]) || !Number.isFinite(vals[b])) continue;
+    const dt = (times[b] ?? 0) - (times[a] ?? 0);
+    if (dt > 1e-9) v[i] = (vals[b] - vals[a]) / dt;
+  }
+  const r = Math.floor(smooth / 2);
+  return v.map((_, i) => {
+    let s = 0, c = 0;
+    for (let j = i - r; j <= i + r; j++) if (Number.isFinite(v[j])) { s += v[j]; c++; }
+    return c && Number.isFinite(v[i]) ? s / c : NaN;
+  });
+}
+
+// Handedness fallback
+export function detectHandedness(frames: TrackFrame[]): Hand {
+  if (!frames.length) return "?";
+  const n = frames.length;
+  const start = Math.floor(n * 0.75);
+  let rx = 0, lx = 0, rc = 0, lc = 0;
+  for (let i = start + 1; i < n; i++) {
+    const a = frames[i - 1].joints as Record<string, V3>;
+    const b = frames[i].joints as Record<string, V3>;
+    const r0 = a["rWrist"] as V3 | undefined;
+    const r1 = b["rWrist"] as V3 | undefined;
+    const l0 = a["lWrist"] as V3 | undefined;
+    const l1 = b["lWrist"] as V3 | undefined;
+    if (r0 && r1) { rx += (r1[0] - r0[0]); rc++; }
+    if (l0 && l1) { lx += (l1[0] - l0[0]); lc++; }
+  }
+  const rdx = rc ? rx / rc : 0;
+  const ldx = lc ? lx / lc : 0;
+  if (rdx < ldx) return "R";
+  if (ldx < rdx) return "L";
+  return "?";
+}
+
+export function emptyBiomechSeries(n: number): BiomechSeries {
+  const nan = () => new Array<number>(n).fill(NaN);
+  return {
+    trunkRot: nan(), hipRot: nan(), hipMinusTrunk: nan(),
+    rAbd: nan(), lAbd: nan(), rKnee: nan(), lKnee: nan(), rElbow: nan(), lElbow: nan(),
+    stride: nan(), stridePct: nan(), linDispHome: nan(), shoulderHAbd: nan(), shoulderER: nan(),
+    comX: nan(), comY: nan(), comZ: nan(), comVelHome: nan(), comLateral: nan(),
+    pelvisAngVel: nan(), trunkAngVel: nan(), elbowExtVel: nan(), shoulderIRVel: nan(),
+  };
+}
+
+// ------- full-pitch biomech series (for graphs) -------
+export function computeBiomechSeries(frames: TrackFrame[], opts: BiomechOptions): BiomechSeries {
+  const n = frames.length;
+  const series = emptyBiomechSeries(n);
+  if (!n) return series;
+
+  const { flipHome, bodyHeight } = opts;
+  const arm: "L" | "R" = opts.hand === "L" ? "L" : "R";
+  const homeVec = (flipHome ? HOME_BASE.clone().multiplyScalar(-1) : HOME_BASE.clone());
+
+  // Helpers reused inside the loop
+  const kneeFlex = (hip?: V3, knee?: V3, ankle?: V3) => {
+    if (!hip || !knee || !ankle) return undefined as any;
+    const t = new THREE.Vector3(hip[0] - knee[0], hip[1] - knee[1], hip[2] - knee[2]).normalize();
+    const s = new THREE.Vector3(ankle[0] - knee[0], ankle[1] - knee[1], ankle[2] - knee[2]).normalize();
+    return THREE.MathUtils.radToDeg(t.angleTo(s));
+  };
+  const elbowFlex = (shoulder?: V3, elbow?: V3, wrist?: V3) => {
+    if (!shoulder || !elbow || !wrist) return undefined as any;
+    const u = new THREE.Vector3(shoulder[0]-elbow[0], shoulder[1]-elbow[1], shoulder[2]-elbow[2]).normalize();
+    const f = new THREE.Vector3(wrist[0]-elbow[0], wrist[1]-elbow[1], wrist[2]-elbow[2]).normalize();
+    return THREE.MathUtils.radToDeg(u.angleTo(f));
+  };
+
+  let prevTrunk: number | null = null;
+  for (let i = 0; i < n; i++) {
+    const Jmap = frames[i]?.joints as Record<string,V3> || {};
+    // key joints (canonical names, see lib/jointProfiles.ts)
+    const lSh = Jmap["lShoulder"];
+    const rSh = Jmap["rShoulder"];
+    const lEl = Jmap["lElbow"];
+    const rEl = Jmap["rElbow"];
+    const lW  = Jmap["lWrist"];
+    const rW  = Jmap["rWrist"];
+    const lHip = Jmap["lHip"];
+    const rHip = Jmap["rHip"];
+    const lKn  = Jmap["lKnee"];
+    const rKn  = Jmap["rKnee"];
+    const lAn  = Jmap["lAnkle"];
+    const rAn  = Jmap["rAnkle"];
+    const pelvisRaw = Jmap["pelvis"];
+    const pelvis: V3 | undefined = pelvisRaw || (lHip && rHip ? ([(lHip[0]+rHip[0])/2, (lHip[1]+rHip[1])/2, (lHip[2]+rHip[2])/2] as V3) : undefined);
+    const chestRaw = Jmap["chest"] || Jmap["neck"];
+    const chest: V3 | undefined = chestRaw || (lSh && rSh ? ([(lSh[0]+rSh[0])/2, (lSh[1]+rSh[1])/2, (lSh[2]+rSh[2])/2] as V3) : undefined);
+
+    // height
+    const head = Jmap["head"];
+    let H = 1.0;
+    if (head && (lAn || rAn)) {
+      const hv = new THREE.Vector3(...head);
+      const av = lAn ? new THREE.Vector3(...lAn) : new THREE.Vector3(...(rAn as V3));
+      H = hv.distanceTo(av);
+    }
+    if (typeof bodyHeight === "number" && bodyHeight > 0) H = bodyHeight;
+
+    // stride
+    let stride: number | undefined;
+    if (lAn && rAn) stride = new THREE.Vector3(...lAn).distanceTo(new THREE.Vector3(...rAn));
+    const stridePct = stride && H ? (stride / H) * 100 : undefined;
+
+    // hip rot
+    const hipVec = (lHip && rHip) ? new THREE.Vector3(rHip[0] - lHip[0], rHip[1] - lHip[1], rHip[2] - lHip[2]) : null;
+    const hipRotDeg = hipVec ? yawDeg(homeVec, hipVec) : undefined;
+
+    // body basis
+    const basis = thoraxBasis(Jmap);
+    const { T, R } = basis;
+    let F = new THREE.Vector3().crossVectors(R, T);
+    if (F.lengthSq() < 1e-9) F = homeVec.clone().sub(T.clone().multiplyScalar(homeVec.dot(T)));
+    F.normalize();
+
+    // trunk rot unwrapped lightly
+    let trunkRotDeg: number | undefined = undefined;
+    if (lSh && rSh) {
+      const rShV = new THREE.Vector3(...rSh);
+      const lShV = new THREE.Vector3(...lSh);
+      const shoulderAxis = rShV.clone().sub(lShV);
+      const raw = wrap180(yawDeg(homeVec, shoulderAxis));
+      if (prevTrunk == null) prevTrunk = raw;
+      const unwrapped = unwrapToPrev(raw, prevTrunk);
+      trunkRotDeg = unwrapped;
+      prevTrunk = unwrapped;
+    }
+
+    const hipMinus = (hipRotDeg != null && trunkRotDeg != null) ? wrap180(hipRotDeg - trunkRotDeg) : undefined;
+
+    // shoulders (ISB thorax / humerus angles)
+    const rShA = shoulderAngles(Jmap, "R", basis);
+    const lShA = shoulderAngles(Jmap, "L", basis);
+    const rAbd = rShA?.abduction;
+    const lAbd = lShA?.abduction;
+    const armA = arm === "R" ? rShA : lShA;
+    const hAbd = armA?.horizontalAbduction;
+    series.shoulderHAbd[i] = hAbd != null ? (opts.flipHAbd ? -hAbd : hAbd) : NaN;
+    series.shoulderER[i] = armA?.externalRotation ?? NaN;
+
+    const rKneeF = kneeFlex(rHip, rKn, rAn);
+    const lKneeF = kneeFlex(lHip, lKn, lAn);
+    const rElbF = elbowFlex(rSh as any, rEl as any, rW as any);
+    const lElbF = elbowFlex(lSh as any, lEl as any, lW as any);
+
+    // lin disp
+    const trunkCoG = (() => {
+      const pts = [pelvis, chest, rSh, lSh].filter(Boolean) as V3[];
+      if (!pts.length) return undefined;
+      const vs = pts.map(p => new THREE.Vector3(p[0], p[1], p[2]));
+      return vs.reduce((s, v) => s.add(v), new THREE.Vector3()).multiplyScalar(1 / vs.length);
+    })();
+    const hipsCoG = (lHip && rHip)
+      ? new THREE.Vector3((lHip[0] + rHip[0]) / 2, (lHip[1] + rHip[1]) / 2, (lHip[2] + rHip[2]) / 2)
+      : undefined;
+    let linDispHome = (trunkCoG && hipsCoG) ? (hipsCoG.x - trunkCoG.x) : undefined;
+
+    // write
+    series.trunkRot[i] = Number.isFinite(trunkRotDeg as any) ? (trunkRotDeg as number) : NaN;
+    series.hipRot[i] = Number.isFinite(hipRotDeg as any) ? (hipRotDeg as number) : NaN;
+    series.hipMinusTrunk[i] = Number.isFinite(hipMinus as any) ? (hipMinus as number) : NaN;
+    series.rAbd[i] = Number.isFinite(rAbd as any) ? (rAbd as number) : NaN;
+    series.lAbd[i] = Number.isFinite(lAbd as any) ? (lAbd as number) : NaN;
+    series.rKnee[i] = Number.isFinite(rKneeF as any) ? (rKneeF as number) : NaN;
+    series.lKnee[i] = Number.isFinite(lKneeF as any) ? (lKneeF as number) : NaN;
+    series.rElbow[i] = Number.isFinite(rElbF as any) ? (rElbF as number) : NaN;
+    series.lElbow[i] = Number.isFinite(lElbF as any) ? (lElbF as number) : NaN;
+    series.stride[i] = Number.isFinite(stride as any) ? (stride as number) : NaN;
+    series.stridePct[i] = Number.isFinite(stridePct as any) ? (stridePct as number) : NaN;
+    series.linDispHome[i] = Number.isFinite(linDispHome as any) ? (linDispHome as number) : NaN;
+
+    const com = segmentalCOM(Jmap)?.com;
+    if (com) [series.comX[i], series.comY[i], series.comZ[i]] = com;
+  }
+
+  // Layback passes 180° on some arms
+  series.shoulderER = unwrapSeries(series.shoulderER);
+
+  // COM along home / sideways on the ground; velocity skips frames without a COM
+  const side = new THREE.Vector3().crossVectors(homeVec, new THREE.Vector3(...opts.up)).normalize();
+  const first = series.comX.findIndex(Number.isFinite);
+  const along = series.comX.map((x, i) => x * homeVec.x + series.comY[i] * homeVec.y + series.comZ[i] * homeVec.z);
+  if (first >= 0) {
+    series.comLateral = series.comX.map((x, i) =>
+      (x - series.comX[first]) * side.x + (series.comY[i] - series.comY[first]) * side.y + (series.comZ[i] - series.comZ[first]) * side.z);
+  }
+
+  // Kinematic-sequence velocities; segment rotation direction depends on handedness, so magnitudes
+  const times = frames.map((f, i) => f.time ?? i);
+  series.comVelHome = linearVelocity(along, times);
+  series.pelvisAngVel = angularVelocity(series.hipRot, times).map(Math.abs);
+  series.trunkAngVel = angularVelocity(series.trunkRot, times).map(Math.abs);
+  series.elbowExtVel = angularVelocity(arm === "R" ? series.rElbow : series.lElbow, times);
+  series.shoulderIRVel = angularVelocity(series.shoulderER, times).map((v) => -v);
+  return series;
+}
@@ -0,0 +1,61 @@
+// src/lib/centerOfMass.ts
+// Whole-body centre of mass from segment mass fractions (de Leva 1996, adjusting Zatsiorsky–Seluyanov;
+// male table). Each segment's COM sits a fixed fraction along its proximal → distal joints.
+
+import type { V3 } from "./parseHawkEye";
+
+interface SegmentSpec {
+  id: string;
+  proximal: string[];            // first present joint wins; "midHip" / "midShoulder" are derived
+  distal: string[];
+  mass: number;                  // fraction of body mass
+  com: number;                   // COM distance from proximal, fraction of segment length
+}
+
+const limb = (s: "l" | "r"): SegmentSpec[] => [
+  { id: `${s}UpperArm`, proximal: [`${s}Shoulder`], distal: [`${s}Elbow`], mass: 0.0271, com: 0.5772 },
+  { id: `${s}Forearm`, proximal: [`${s}Elbow`], distal: [`${s}Wrist`], mass: 0.0162, com: 0.4574 },
+  { id: `${s}Hand`, proximal: [`${s}Wrist`], distal: [`${s}MiddleBase`, `${s}Hand`, `${s}Wrist`], mass: 0.0061, com: 0.79 },
+  { id: `${s}Thigh`, proximal: [`${s}Hip`], distal: [`${s}Knee`], mass: 0.1416, com: 0.4095 },
+  { id: `${s}Shank`, proximal: [`${s}Knee`], distal: [`${s}Ankle`], mass: 0.0433, com: 0.4459 },
+  { id: `${s}Foot`, proximal: [`${s}Heel`, `${s}Ankle`], distal: [`${s}BigToe`, `${s}SmallToe`, `${s}Ankle`], mass: 0.0137, com: 0.4415 },
+];
+
+export const DE_LEVA_SEGMENTS: SegmentSpec[] = [
+  // Head: the file's head joint is already near the head's centre, so it is used as the point
+  { id: "head", proximal: ["head", "nose", "neck"], distal: ["head", "nose", "neck"], mass: 0.0694, com: 0 },
+  { id: "trunk", proximal: ["neck", "midShoulder"], distal: ["midHip", "pelvis"], mass: 0.4346, com: 0.4486 },
+  ...limb("l"),
+  ...limb("r"),
+];
+
+export interface BodyCOM {
+  com: V3;
+  coverage: number;              // share of body mass whose segments were found (0–1)
+}
+
+const MIN_COVERAGE = 0.6;        // below this the estimate is mostly missing segments
+
+const mid = (a: V3, b: V3): V3 => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+
+/** Mass-weighted COM of the segments present in this frame, renormalised over the mass found. */
+export function segmentalCOM(J: Record<string, V3>): BodyCOM | undefined {
+  const pick = (names: string[]): V3 | undefined => {
+    for (const n of names) {
+      if (n === "midHip") { if (J.lHip && J.rHip) return mid(J.lHip, J.rHip); continue; }
+      if (n === "midShoulder") { if (J.lShoulder && J.rShoulder) return mid(J.lShoulder, J.rShoulder); continue; }
+      if (J[n]) return J[n];
+    }
+    return undefined;
+  };
+  const sum: V3 = [0, 0, 0];
+  let mass = 0;
+  for (const s of DE_LEVA_SEGMENTS) {
+    const a = pick(s.proximal), b = pick(s.distal);
+    if (!a || !b) continue;
+    for (let k = 0; k < 3; k++) sum[k] += s.mass * (a[k] + s.com * (b[k] - a[k]));
+    mass += s.mass;
+  }
+  if (mass < MIN_COVERAGE) return undefined;
+  return { com: [sum[0] / mass, sum[1] / mass, sum[2] / mass], coverage: mass };
+}
@@ -0,0 +1,21 @@
+// src/lib/clipTime.ts
+// UTC timestamps on the clip clock, shared by the parser and the event timeline.
+
+// ISO-8601 UTC → epoch seconds, keeping sub-millisecond digits that Date.parse would drop
+export function utcSeconds(v: any): number | null {
+  if (typeof v !== "string") return null;
+  const m = v.trim().match(/^(.*T\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!m) {
+    const ms = Date.parse(v);
+    return Number.isFinite(ms) ? ms / 1000 : null;
+  }
+  const whole = Date.parse(m[1] + (m[3] ?? "Z"));
+  if (!Number.isFinite(whole)) return null;
+  return whole / 1000 + (m[2] ? Number("0" + m[2]) : 0);
+}
+
+/** Seconds from the clip start to a UTC timestamp (undefined if either is missing/unparseable). */
+export function secondsSinceClipStart(utc: any, clipStartUTC?: string): number | undefined {
+  const a = utcSeconds(utc), b = utcSeconds(clipStartUTC);
+  return a != null && b != null ? a - b : undefined;
+}
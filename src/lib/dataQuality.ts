@@ -0,0 +1,236 @@
+// src/lib/dataQuality.ts
+// Tracking clean-up before filtering: drops samples that jump implausibly (velocity spikes, bone-length
+// violations), fills short dropouts with a cubic spline, and flags every touched or missing sample so
+// the UI can mark frames whose metrics rest on reconstructed data.
+
+import { jointIndexOf, type PackedFrames } from "./trackPacking";
+import type { JointResolution } from "./jointProfiles";
+import { JOINT_PARENT } from "./skeletonTopology";
+import { filterGroupOf, type FilterGroup } from "./filtering";
+
+// Per-sample flags, [frame][joint] like PackedFrames.positions
+export const QF_MISSING = 1;     // absent after filling (gap too long, or at the clip's ends)
+export const QF_FILLED = 2;      // interpolated
+export const QF_SPIKE = 4;       // removed as a velocity spike (then filled or left missing)
+export const QF_BONE = 8;        // a bone to this joint was far off its usual length
+
+export interface QualityReport {
+  jointNames: string[];          // vendor names, in PackedFrames order
+  flags: Uint8Array;             // [frame][joint] bitmask of QF_*
+  filled: number;                // samples interpolated
+  spikes: number;                // samples removed as spikes
+  boneViolations: number;        // joint samples on a stretched / shrunk bone
+}
+
+export interface QualityRun {
+  start: number;
+  end: number;
+  color: string;
+  label: string;
+}
+
+// Fastest plausible joint speeds: a pitcher's hand passes 30 m/s at release
+const MAX_SPEED: Record<FilterGroup, number> = { trunk: 12, arms: 45, legs: 20 };
+const MAX_GLITCH_S = 0.1;        // longest excursion that still counts as one spike (jump out, jump back)
+const MAX_GAP_S = 0.1;           // longer dropouts stay missing
+const SPLINE_KNOTS = 4;          // valid samples used on each side of a gap
+const BONE_TOLERANCE = 0.25;     // share of the median length a bone may deviate
+const BONE_MIN_DEV_M = 0.04;     // …but never less than this
+
+/** Joints whose quality decides a frame's confidence: the ones the metrics are built from. */
+export const QUALITY_JOINTS = [
+  "lShoulder", "rShoulder", "lElbow", "rElbow", "lWrist", "rWrist",
+  "lHip", "rHip", "lKnee", "rKnee", "lAnkle", "rAnkle",
+];
+
+/** Natural cubic spline through (t, y) knots, evaluated at ts. */
+export function cubicSpline(t: number[], y: number[], ts: number[]): number[] {
+  const n = t.length;
+  if (n < 2) return ts.map(() => y[0] ?? NaN);
+  // Second derivatives M (M0 = Mn-1 = 0) from the tridiagonal system
+  const h = t.slice(1).map((v, i) => v - t[i]);
+  const M = new Array(n).fill(0);
+  if (n > 2) {
+    const a: number[] = [], b: number[] = [], c: number[] = [], d: number[] = [];
+    for (let i = 1; i < n - 1; i++) {
+      a.push(h[i - 1]); b.push(2 * (h[i - 1] + h[i])); c.push(h[i]);
+      d.push(6 * ((y[i + 1] - y[i]) / h[i] - (y[i] - y[i - 1]) / h[i - 1]));
+    }
+    for (let i = 1; i < b.length; i++) {
+      const w = a[i] / b[i - 1];
+      b[i] -= w * c[i - 1];
+      d[i] -= w * d[i - 1];
+    }
+    for (let i = b.length - 1; i >= 0; i--) M[i + 1] = (d[i] - (i + 1 < b.length ? c[i] * M[i + 2] : 0)) / b[i];
+  }
+  return ts.map((x) => {
+    let k = 0;
+    while (k < n - 2 && x > t[k + 1]) k++;
+    const hk = h[k], A = (t[k + 1] - x) / hk, B = (x - t[k]) / hk;
+    return A * y[k] + B * y[k + 1] + ((A ** 3 - A) * M[k] + (B ** 3 - B) * M[k + 1]) * hk * hk / 6;
+  });
+}
+
+/**
+ * Spike samples of one joint: after a step faster than maxSpeed, the samples up to a step that lands
+ * back near the pre-jump position. A jump that never returns is a re-acquisition and is kept.
+ */
+function findSpikes(P: Float32Array, J: number, j: number, times: Float64Array, maxSpeed: number, out: Uint8Array) {
+  const n = times.length;
+  const at = (i: number) => (i * J + j) * 3;
+  const dist = (i: number, k: number) =>
+    Math.hypot(P[at(i)] - P[at(k)], P[at(i) + 1] - P[at(k) + 1], P[at(i) + 2] - P[at(k) + 2]);
+  let prev = -1;                 // last trusted sample
+  for (let i = 0; i < n; i++) {
+    if (Number.isNaN(P[at(i)])) continue;
+    if (prev < 0 || dist(i, prev) <= maxSpeed * (times[i] - times[prev])) { prev = i; continue; }
+    let back = -1;
+    for (let k = i + 1; k < n && times[k] - times[i] <= MAX_GLITCH_S; k++) {
+      if (!Number.isNaN(P[at(k)]) && dist(k, prev) <= maxSpeed * (times[k] - times[prev])) { back = k; break; }
+    }
+    if (back < 0) { prev = i; continue; }
+    for (let k = i; k < back; k++) if (!Number.isNaN(P[at(k)])) out[k * J + j] |= QF_SPIKE;
+    i = back - 1;
+  }
+}
+
+/**
+ * Clean a track: spikes and joints whose bones are all off-length are removed, then gaps up to
+ * MAX_GAP_S between valid samples are filled. Joint groups and bones use canonical names.
+ */
+export function cleanPacked(p: PackedFrames, joints: JointResolution = {}): { packed: PackedFrames; report: QualityReport } {
+  const J = p.jointNames.length, n = p.times.length;
+  const P = new Float32Array(p.positions);
+  const flags = new Uint8Array(n * J);
+  const canonical = new Map<string, string>();
+  for (const [c, names] of Object.entries(joints)) for (const name of names ?? []) if (!canonical.has(name)) canonical.set(name, c);
+  const nameOf = (j: number) => canonical.get(p.jointNames[j]) ?? p.jointNames[j];
+
+  // 1. velocity spikes
+  for (let j = 0; j < J; j++) findSpikes(P, J, j, p.times, MAX_SPEED[filterGroupOf(nameOf(j))], flags);
+
+  // 2. bone lengths against each bone's median over the clip
+  const bones: [number, number][] = [];
+  for (const [child, parent] of Object.entries(JOINT_PARENT)) {
+    const a = jointIndexOf(p.jointNames, joints, child), b = jointIndexOf(p.jointNames, joints, parent!);
+    if (a >= 0 && b >= 0 && a !== b && !bones.some(([x, y]) => (x === a && y === b) || (x === b && y === a))) bones.push([a, b]);
+  }
+  const ok = (i: number, j: number) => !Number.isNaN(P[(i * J + j) * 3]) && !(flags[i * J + j] & QF_SPIKE);
+  const boneLen = (i: number, a: number, b: number) => {
+    const oa = (i * J + a) * 3, ob = (i * J + b) * 3;
+    return Math.hypot(P[oa] - P[ob], P[oa + 1] - P[ob + 1], P[oa + 2] - P[ob + 2]);
+  };
+  const offBones = new Uint8Array(n * J), bonesOf = new Uint8Array(J);
+  for (const [a, b] of bones) {
+    bonesOf[a]++; bonesOf[b]++;
+    const lens: number[] = [];
+    for (let i = 0; i < n; i++) if (ok(i, a) && ok(i, b)) lens.push(boneLen(i, a, b));
+    if (lens.length < 3) continue;
+    lens.sort((x, y) => x - y);
+    const ref = lens[lens.length >> 1];
+    const tol = Math.max(BONE_MIN_DEV_M, BONE_TOLERANCE * ref);
+    for (let i = 0; i < n; i++) {
+      if (!ok(i, a) || !ok(i, b) || Math.abs(boneLen(i, a, b) - ref) <= tol) continue;
+      flags[i * J + a] |= QF_BONE; flags[i * J + b] |= QF_BONE;
+      offBones[i * J + a]++; offBones[i * J + b]++;
+    }
+  }
+
+  // Remove spikes, and joints with every one of their (2+) bones off: the joint itself is the outlier
+  let spikes = 0, boneViolations = 0;
+  for (let i = 0; i < n; i++) for (let j = 0; j < J; j++) {
+    const k = i * J + j;
+    if (flags[k] & QF_BONE) boneViolations++;
+    const drop = (flags[k] & QF_SPIKE) || (bonesOf[j] >= 2 && offBones[k] === bonesOf[j]);
+    if (!drop) continue;
+    if (flags[k] & QF_SPIKE) spikes++;
+    P[k * 3] = P[k * 3 + 1] = P[k * 3 + 2] = NaN;
+  }
+
+  // 3. fill short interior gaps from the valid samples around them
+  let filled = 0;
+  for (let j = 0; j < J; j++) {
+    const valid: number[] = [];
+    for (let i = 0; i < n; i++) if (!Number.isNaN(P[(i * J + j) * 3])) valid.push(i);
+    for (let v = 0; v + 1 < valid.length; v++) {
+      const s = valid[v], e = valid[v + 1];
+      if (e - s < 2 || p.times[e] - p.times[s] > MAX_GAP_S + 1e-9) continue;
+      const knots = valid.slice(Math.max(0, v - SPLINE_KNOTS + 1), Math.min(valid.length, v + 1 + SPLINE_KNOTS));
+      const t = knots.map((i) => p.times[i]);
+      const ts: number[] = [];
+      for (let i = s + 1; i < e; i++) ts.push(p.times[i]);
+      for (let axis = 0; axis < 3; axis++) {
+        const y = cubicSpline(t, knots.map((i) => P[(i * J + j) * 3 + axis]), ts);
+        y.forEach((val, k) => { P[((s + 1 + k) * J + j) * 3 + axis] = val; });
+      }
+      for (let i = s + 1; i < e; i++) { flags[i * J + j] |= QF_FILLED; filled++; }
+    }
+  }
+  for (let k = 0; k < n * J; k++) if (Number.isNaN(P[k * 3])) flags[k] |= QF_MISSING;
+
+  return {
+    packed: { jointNames: p.jointNames.slice(), times: new Float64Array(p.times), positions: P },
+    report: { jointNames: p.jointNames.slice(), flags, filled, spikes, boneViolations },
+  };
+}
+
+const RUN_COLOR = { filled: "#f59e0b", missing: "#ef4444" };
+
+// What happened to a sample, worst first, for run labels
+function issueOf(f: number): string | null {
+  if (f & QF_MISSING) return "missing";
+  if (f & QF_SPIKE) return "spike";
+  if (f & QF_BONE) return "bone length";
+  if (f & QF_FILLED) return "filled";
+  return null;
+}
+
+/**
+ * Frame ranges where a quality joint was filled, removed or off-length (amber), or is missing
+ * outright (red). Joints the track never has are ignored; their metrics are simply absent.
+ */
+export function lowConfidenceRuns(report: QualityReport, joints: JointResolution = {}, names: string[] = QUALITY_JOINTS): QualityRun[] {
+  const J = report.jointNames.length;
+  const n = J ? report.flags.length / J : 0;
+  const watch: { name: string; j: number }[] = [];
+  for (const name of names) {
+    const j = jointIndexOf(report.jointNames, joints, name);
+    if (j < 0) continue;
+    let present = false;
+    for (let i = 0; i < n && !present; i++) present = !(report.flags[i * J + j] & QF_MISSING);
+    if (present) watch.push({ name, j });
+  }
+
+  const runs: QualityRun[] = [];
+  let cur: { start: number; kind: keyof typeof RUN_COLOR; issues: Map<string, Set<string>> } | null = null;
+  const close = (end: number) => {
+    if (!cur) return;
+    const parts = [...cur.issues].map(([name, what]) => `${name} ${[...what].join(" / ")}`);
+    runs.push({ start: cur.start, end, color: RUN_COLOR[cur.kind], label: `Low confidence: ${parts.join(", ")}` });
+    cur = null;
+  };
+  for (let i = 0; i < n; i++) {
+    let kind: keyof typeof RUN_COLOR | null = null;
+    const found: [string, string][] = [];
+    for (const { name, j } of watch) {
+      const what = issueOf(report.flags[i * J + j]);
+      if (!what) continue;
+      found.push([name, what]);
+      kind = what === "missing" || kind === "missing" ? "missing" : "filled";
+    }
+    if (cur && kind !== cur.kind) close(i - 1);
+    if (!kind) continue;
+    cur ??= { start: i, kind, issues: new Map() };
+    for (const [name, what] of found) {
+      if (!cur.issues.has(name)) cur.issues.set(name, new Set());
+      cur.issues.get(name)!.add(what);
+    }
+  }
+  close(n - 1);
+  return runs;
+}
+
+/** The run frame i falls in, if any. */
+export function runAt(runs: QualityRun[], i: number): QualityRun | undefined {
+  return runs.find((r) => i >= r.start && i <= r.end);
+}
@@ -0,0 +1,81 @@
+// src/lib/deliveryCompare.ts
+// A second delivery laid over the first: matched in time on one event, moved into place by the pelvis at
+// that event or by each track's field landmarks, with per-joint distances and series resampled onto the
+// first delivery's frames.
+
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { frameAtTime, type BiomechSeries } from "./biomech";
+import { fromField, toField, type FieldFrame } from "./fieldGeometry";
+import { pelvisCenter } from "./skeletonTopology";
+
+export type CompareEvent = "fs" | "br" | "heelPlant" | "contact";
+export type CompareSpace = "pelvis" | "field";
+
+export const COMPARE_EVENT_LABEL: Record<CompareEvent, string> = {
+  fs: "Foot strike", br: "Release", heelPlant: "Heel plant", contact: "Contact",
+};
+
+export const HEAT_MAX_M = 0.3;   // a joint this far from its match is fully "hot"
+
+export interface CompareAlignment {
+  frameMap: number[];            // [main frame] → compare frame, −1 outside the compare clip
+  dt: number;                    // s added to the main clock to read the compare clock
+  offset?: V3;                   // pelvis mode: added to every compare point
+  fields?: { main: FieldFrame; other: FieldFrame };  // field mode: compare field → main field
+}
+
+/**
+ * `main` / `other` are the event's frame on each track. Frames of the compare clip beyond one
+ * sample of its ends map to −1 rather than repeating the end pose.
+ */
+export function alignDeliveries(
+  frames: TrackFrame[], other: TrackFrame[], main: number, otherEvent: number,
+  space: CompareSpace, fields?: { main: FieldFrame | null; other: FieldFrame | null },
+): CompareAlignment {
+  const dt = other[otherEvent].time - frames[main].time;
+  const n = other.length;
+  const slack = n > 1 ? (other[n - 1].time - other[0].time) / (n - 1) : 0;
+  const frameMap = frames.map((f) => {
+    const t = f.time + dt;
+    return t < other[0].time - slack || t > other[n - 1].time + slack ? -1 : frameAtTime(other, t);
+  });
+  if (space === "field" && fields?.main && fields.other) return { frameMap, dt, fields: { main: fields.main, other: fields.other } };
+  const a = pelvisCenter(frames[main].joints as Record<string, V3>), b = pelvisCenter(other[otherEvent].joints as Record<string, V3>);
+  return { frameMap, dt, offset: a && b ? [a[0] - b[0], a[1] - b[1], a[2] - b[2]] : [0, 0, 0] };
+}
+
+/** A compare-track point moved into the main track's space. */
+export function placeCompared(al: CompareAlignment, p: V3): V3 {
+  if (al.fields) return fromField(al.fields.main, toField(al.fields.other, p));
+  const o = al.offset ?? [0, 0, 0];
+  return [p[0] + o[0], p[1] + o[1], p[2] + o[2]];
+}
+
+/** The compare pose matched to main frame i, already placed; null outside the compare clip. */
+export function comparedPose(al: CompareAlignment, other: TrackFrame[], i: number): Record<string, V3> | null {
+  const k = al.frameMap[i];
+  if (k == null || k < 0) return null;
+  const out: Record<string, V3> = {};
+  for (const [name, p] of Object.entries(other[k].joints as Record<string, V3>)) out[name] = placeCompared(al, p);
+  return out;
+}
+
+/** Distance (m) per joint present in both poses, over `names` when given. */
+export function jointDistances(a: Record<string, V3>, b: Record<string, V3>, names?: readonly string[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const name of names ?? Object.keys(a)) {
+    const p = a[name], q = b[name];
+    if (p && q) out[name] = Math.hypot(p[0] - q[0], p[1] - q[1], p[2] - q[2]);
+  }
+  return out;
+}
+
+/** Every series of the compare track read at the compare frame matched to each main frame. */
+export function resampleSeries(series: BiomechSeries, frameMap: number[]): BiomechSeries {
+  const out = {} as BiomechSeries;
+  for (const key of Object.keys(series) as (keyof BiomechSeries)[]) {
+    const src = series[key];
+    out[key] = frameMap.map((k) => (k >= 0 && k < src.length ? src[k] : NaN));
+  }
+  return out;
+}
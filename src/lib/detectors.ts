@@ -0,0 +1,239 @@
+// src/lib/detectors.ts
+// Foot-strike and ball-release detection on canonical joint frames. Each detector returns the frame
+// and a 0–1 confidence: how clearly the chosen frame beats the other candidates.
+
+import * as THREE from "three";
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { HOME_BASE, finiteDiff, frameAtTime, movingAvg, yawDeg, type Hand } from "./biomech";
+import { readJson, writeJson } from "./storage";
+
+export interface Detection {
+  index: number;
+  confidence: number;            // 0–1
+  seeded?: boolean;              // refined around a release time from the JSON
+}
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+const FS_TROUGH_RISE_M = 0.03;   // foot lift that separates two candidate contacts
+
+// ————— Shared series (also used by lib/phases.ts) —————
+export type Side = "L" | "R";
+
+/** Stride (lead) leg: opposite the throwing hand, else the ankle nearer home mid-clip. */
+export function leadSideOf(frames: TrackFrame[], handHint: Hand): Side {
+  if (handHint === "R") return "L";
+  if (handHint === "L") return "R";
+  const mid = frames[Math.floor(frames.length * 0.5)]?.joints ?? {};
+  const rA = mid["rAnkle"] as V3 | undefined;
+  const lA = mid["lAnkle"] as V3 | undefined;
+  return rA && lA ? (rA[0] < lA[0] ? "R" : "L") : rA ? "R" : "L";
+}
+
+/** Throwing arm: the hand hint, else the wrist moving harder toward home (−X) late in the clip. */
+export function throwSideOf(frames: TrackFrame[], handHint: Hand): Side {
+  if (handHint === "R") return "R";
+  if (handHint === "L") return "L";
+  const n = frames.length;
+  const s = Math.floor(n * 0.75);
+  let rx = 0, lx = 0, rc = 0, lc = 0;
+  for (let i = s + 1; i < n; i++) {
+    const a = frames[i - 1].joints as Record<string, V3>;
+    const b = frames[i].joints as Record<string, V3>;
+    const r0 = a["rWrist"] as V3 | undefined;
+    const r1 = b["rWrist"] as V3 | undefined;
+    const l0 = a["lWrist"] as V3 | undefined;
+    const l1 = b["lWrist"] as V3 | undefined;
+    if (r0 && r1) { rx += (r1[0] - r0[0]); rc++; }
+    if (l0 && l1) { lx += (l1[0] - l0[0]); lc++; }
+  }
+  const rdx = rc ? rx / rc : 0;
+  const ldx = lc ? lx / lc : 0;
+  return (rdx < ldx) ? "R" : "L";
+}
+
+export function frameTimes(frames: TrackFrame[], fps: number): number[] {
+  return frames.map((f, i) => f.time ?? (i / fps));
+}
+
+/**
+ * One joint over the clip; a missing frame repeats the previous position, and frames before the joint
+ * first appears take that first position (so they read as still, not as a jump from the origin).
+ */
+export function jointSeries(frames: TrackFrame[], name: string): V3[] {
+  const first = frames.find((f) => f.joints[name])?.joints[name] as V3 | undefined;
+  const out: V3[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    const p = frames[i].joints[name] as V3 | undefined;
+    out.push(p ?? out[i - 1] ?? first ?? [0, 0, 0]);
+  }
+  return out;
+}
+
+// ————— Foot-Strike —————
+export function findFootStrike(frames: TrackFrame[], handHint: Hand, fps: number): Detection | undefined {
+  if (!frames.length) return undefined;
+
+  const leadSide = leadSideOf(frames, handHint);
+
+  const aKey = (names: Record<string, V3>) => names[leadSide === "R" ? "rAnkle" : "lAnkle"] as V3 | undefined;
+
+  // series
+  const Y: number[] = [], X: number[] = [], Z: number[] = [], T: number[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    const p = aKey(frames[i].joints);
+    const lastY = Y.length ? Y[Y.length - 1] : 0;
+    const lastX = X.length ? X[X.length - 1] : 0;
+    const lastZ = Z.length ? Z[Z.length - 1] : 0;
+    Y.push(p ? p[1] : lastY);
+    X.push(p ? p[0] : lastX);
+    Z.push(p ? p[2] : lastZ);
+    T.push(frames[i].time ?? (i / fps));
+  }
+
+  const Vy = movingAvg(finiteDiff(Y, T), 3);
+  const Vh = movingAvg(X.map((_, i) => Math.hypot((X[i] - (X[i-1] ?? X[i])), (Z[i] - (Z[i-1] ?? Z[i])))/Math.max(1e-6,(T[i]-(T[i-1]??T[i])))), 3);
+
+  // Foot yaw stability proxy
+  const footYaw: number[] = [];
+  let hasToe = false;
+  for (let i = 0; i < frames.length; i++) {
+    const j = frames[i].joints as Record<string, V3>;
+    const a = aKey(j);
+    const toe = leadSide === "R" ? (j["rBigToe"] || j["rHeel"]) : (j["lBigToe"] || j["lHeel"]);
+    if (a && toe) {
+      hasToe = true;
+      const dir = new THREE.Vector3(toe[0]-a[0], toe[1]-a[1], toe[2]-a[2]);
+      dir.setZ(0);
+      if (dir.lengthSq() > 1e-10) dir.normalize();
+      footYaw.push(Math.atan2(dir.y, dir.x)); // radians
+    } else {
+      footYaw.push(footYaw.length ? footYaw[footYaw.length - 1] : 0);
+    }
+  }
+  const dYaw = movingAvg(finiteDiff(footYaw, T).map(v => Math.abs(v)), 5);
+
+  // Score
+  const candidates: { i: number; score: number }[] = [];
+  for (let i = 2; i < Y.length - 2; i++) {
+    const localMin = Y[i] <= Y[i - 1] && Y[i] <= Y[i + 1];
+    if (!localMin) continue;
+    const vy0 = Math.abs(Vy[i]);
+    const speedDrop = (Vh[i - 1] - Vh[i]);
+    const yawStable = dYaw[i];
+    const score = (vy0 * 4.0) + (-speedDrop * 2.0) + (yawStable * 1.5) + (Y[i] * 0.2);
+    candidates.push({ i, score });
+  }
+  if (!candidates.length) return undefined;
+  candidates.sort((a, b) => a.score - b.score);
+  const best = candidates[0];
+
+  // Confidence: margin to the best rival in a different trough — a planted foot's flat minima are one contact
+  const separate = (c: { i: number }) => {
+    const [lo, hi] = c.i < best.i ? [c.i, best.i] : [best.i, c.i];
+    let peak = -Infinity;
+    for (let k = lo; k <= hi; k++) peak = Math.max(peak, Y[k]);
+    return peak - Math.max(Y[c.i], Y[best.i]) > FS_TROUGH_RISE_M;
+  };
+  const rival = candidates.find((c) => c !== best && separate(c));
+  const margin = rival ? (rival.score - best.score) / (Math.abs(rival.score) + Math.abs(best.score) + 1e-6) : 1;
+  return { index: best.i, confidence: clamp01(margin) * (hasToe ? 1 : 0.7) };
+}
+
+// ————— Ball Release —————
+export function findBallRelease(frames: TrackFrame[], handHint: Hand, fps: number, jsonReleaseSec?: number): Detection | undefined {
+  if (!frames.length) return undefined;
+
+  let seedIdx: number | undefined;
+  if (jsonReleaseSec != null) {
+    seedIdx = frameAtTime(frames, jsonReleaseSec);
+  }
+
+  const throwSide = throwSideOf(frames, handHint);
+
+  // Series for wrist forward speed (toward HOME is −X)
+  const T = frameTimes(frames, fps);
+  const X = jointSeries(frames, throwSide === "R" ? "rWrist" : "lWrist").map((p) => p[0]);
+  const Vx = movingAvg(finiteDiff(X, T), 3); // forward speed
+
+  // Elbow extension velocity proxy
+  function elbowExtVel(side: "R" | "L") {
+    const ang: number[] = [];
+    for (let i = 0; i < frames.length; i++) {
+      const j = frames[i].joints as Record<string, V3>;
+      const s = side === "R"
+        ? { sh: j["rShoulder"], el: j["rElbow"], wr: j["rWrist"] }
+        : { sh: j["lShoulder"], el: j["lElbow"], wr: j["lWrist"] };
+      if (s.sh && s.el && s.wr) {
+        const u = new THREE.Vector3(s.sh[0]-s.el[0], s.sh[1]-s.el[1], s.sh[2]-s.el[2]).normalize();
+        const f = new THREE.Vector3(s.wr[0]-s.el[0], s.wr[1]-s.el[1], s.wr[2]-s.el[2]).normalize();
+        ang.push(THREE.MathUtils.radToDeg(u.angleTo(f)));
+      } else {
+        ang.push(ang.length ? ang[ang.length-1] : 0);
+      }
+    }
+    const d = movingAvg(finiteDiff(ang, T), 3);
+    return d;
+  }
+  const dElbow = elbowExtVel(throwSide);
+
+  // Trunk angular speed proxy
+  const trunkYaw: number[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    const j = frames[i].joints as Record<string, V3>;
+    const lSh = j["lShoulder"] as V3 | undefined;
+    const rSh = j["rShoulder"] as V3 | undefined;
+    if (lSh && rSh) {
+      const axis = new THREE.Vector3(rSh[0]-lSh[0], rSh[1]-lSh[1], rSh[2]-lSh[2]);
+      trunkYaw.push(yawDeg(HOME_BASE, axis));
+    } else {
+      trunkYaw.push(trunkYaw.length ? trunkYaw[trunkYaw.length-1] : 0);
+    }
+  }
+  const dTrunk = movingAvg(finiteDiff(trunkYaw, T).map(v => Math.abs(v)), 3);
+
+  const seeded = seedIdx != null;
+  if (seedIdx == null) {
+    let minV = 1e9, idx = 0;
+    for (let i = 1; i < Vx.length; i++) {
+      if (Vx[i] < minV) { minV = Vx[i]; idx = i; }
+    }
+    seedIdx = idx;
+  }
+
+  const lo = Math.max(1, seedIdx - 20);
+  const hi = Math.min(Vx.length - 2, seedIdx + 20);
+  let best = seedIdx;
+  let bestScore = -Infinity;
+  const scores: number[] = [];
+  for (let i = lo; i <= hi; i++) {
+    const score = (-Vx[i]) * 1.0 + (dElbow[i] ?? 0) * 0.8 + (dTrunk[i] ?? 0) * 0.5;
+    scores.push(score);
+    if (score > bestScore) { bestScore = score; best = i; }
+  }
+  if (!scores.length) return { index: seedIdx, confidence: seeded ? 0.5 : 0, seeded };
+
+  // Confidence: peak sharpness over the window median; a JSON seed the peak agrees with adds to it
+  const median = scores.slice().sort((a, b) => a - b)[scores.length >> 1];
+  const sharp = clamp01((bestScore - median) / (Math.abs(bestScore) + Math.abs(median) + 1e-6));
+  const agree = seeded ? Math.exp(-Math.abs(best - seedIdx) / Math.max(1, fps * 0.02)) : 0;
+  return { index: best, confidence: seeded ? clamp01(0.5 * agree + 0.5 * sharp + 0.2) : sharp * 0.8, seeded };
+}
+
+// ---- analyst overrides (browser only) ----
+// Stored as clip-clock seconds, not frame indices, so they survive re-filtering or re-sampling
+export interface EventOverride { fs?: number; br?: number }
+
+const OVERRIDES_KEY = "hawkeye.eventOverrides";
+
+/** One pitch of one person in one file. */
+export function overrideKey(file: string, pitchId: string | undefined, role: string, person: string): string {
+  return `${file}|${pitchId ?? ""}|${role}:${person}`;
+}
+
+export function loadEventOverrides(): Record<string, EventOverride> {
+  return readJson<Record<string, EventOverride>>(OVERRIDES_KEY, {});
+}
+
+export function saveEventOverrides(all: Record<string, EventOverride>) {
+  writeJson(OVERRIDES_KEY, all);
+}
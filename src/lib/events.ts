@@ -0,0 +1,91 @@
+// src/lib/events.ts
+// Typed event timeline from `events` / `details.events`. Each entry can carry several times
+// (a PITCH event holds release and plate-crossing UTCs); every one becomes its own timeline event.
+
+import { secondsSinceClipStart } from "./clipTime";
+
+export type EventKind =
+  | "pitch" | "release" | "footStrike" | "plateCrossing" | "contact" | "bounce" | "catch" | "other";
+
+export interface TimelineEvent {
+  kind: EventKind;
+  label: string;                 // tick text
+  rawType: string;               // event type as written in the file
+  time: number;                  // seconds since clip start (same clock as frames)
+  source: string;                // JSON path of the time field, e.g. "events[0].releaseTimeUTC"
+}
+
+export const EVENT_LABEL: Record<EventKind, string> = {
+  pitch: "Pitch", release: "Release", footStrike: "Foot strike", plateCrossing: "Plate",
+  contact: "Contact", bounce: "Bounce", catch: "Catch", other: "Event",
+};
+
+const KIND_ALIASES: [RegExp, EventKind][] = [
+  [/^(ball)?release$/, "release"],
+  [/^foot(strike|plant|down)$/, "footStrike"],
+  [/^(home)?plate(crossing)?$|^crossplate$/, "plateCrossing"],
+  [/^(bat)?contact$|^hit$/, "contact"],
+  [/^bounce$|^ground$/, "bounce"],
+  [/^(catcher)?catch$|^receive$/, "catch"],
+  [/^pitch$/, "pitch"],
+];
+
+function kindOf(raw: string): EventKind | null {
+  const k = raw.replace(/[^a-z]/gi, "").toLowerCase().replace(/^refined/, "");
+  for (const [re, kind] of KIND_ALIASES) if (re.test(k)) return kind;
+  return null;
+}
+
+const MAIN_TIME_KEYS = ["timeUTC", "utc", "timestampUTC", "time", "t", "timestamp"];
+// "refinedReleaseTimeUTC", "plateTimeUtc", "catchTime" → named sub-events
+const SUB_TIME_KEY = /^(.+?)(?:Time)?(?:UTC|Utc)$|^(.+?)Time$/;
+
+function toSeconds(v: any, clipStartUTC?: string): number | undefined {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string") return secondsSinceClipStart(v, clipStartUTC);
+  return undefined;
+}
+
+export function extractEvents(root: any, clipStartUTC?: string): TimelineEvent[] {
+  const out: TimelineEvent[] = [];
+  const push = (e: TimelineEvent) => {
+    if (out.some((o) => o.kind === e.kind && Math.abs(o.time - e.time) < 1e-3)) return;
+    out.push(e);
+  };
+
+  const lists: [string, any][] = [["events", root?.events], ["details.events", root?.details?.events]];
+  for (const [path, list] of lists) {
+    if (!Array.isArray(list)) continue;
+    list.forEach((ev: any, i: number) => {
+      if (!ev || typeof ev !== "object") return;
+      const rawType = String(ev.type ?? ev.name ?? ev.event ?? "");
+      const kind = kindOf(rawType) ?? "other";
+      const label = kind === "other" && rawType ? rawType : EVENT_LABEL[kind];
+
+      for (const key of MAIN_TIME_KEYS) {
+        const time = toSeconds(ev[key], clipStartUTC);
+        if (time == null) continue;
+        push({ kind, label, rawType, time, source: `${path}[${i}].${key}` });
+        break;
+      }
+
+      // Refined times first so they win the per-kind dedupe
+      const keys = Object.keys(ev).filter((k) => !MAIN_TIME_KEYS.includes(k))
+        .sort((a, b) => Number(/^refined/i.test(b)) - Number(/^refined/i.test(a)));
+      for (const key of keys) {
+        const m = key.match(SUB_TIME_KEY);
+        const sub = m && kindOf(m[1] ?? m[2]);
+        if (!sub) continue;
+        const time = toSeconds(ev[key], clipStartUTC);
+        if (time == null) continue;
+        if (out.some((o) => o.kind === sub && o.source.startsWith(`${path}[${i}].`))) continue;
+        push({ kind: sub, label: EVENT_LABEL[sub], rawType, time, source: `${path}[${i}].${key}` });
+      }
+    });
+  }
+  return out.sort((a, b) => a.time - b.time);
+}
+
+export function firstEventTime(events: TimelineEvent[] | undefined, kind: EventKind): number | undefined {
+  return events?.find((e) => e.kind === kind)?.time;
+}
@@ -0,0 +1,238 @@
+// src/lib/fieldGeometry.ts
+// Regulation landmarks — mound, rubber, home plate, batter's boxes, strike zone — in Hawk-Eye field
+// coordinates (origin at the back point of home plate on the ground), which data axes those are, and the
+// measurements a real landmark allows: release extension, stride direction, the hitter's spot in the box.
+
+import type { ParsedBall, TrackFrame, V3 } from "./parseHawkEye";
+import { HOME_BASE, type Hand } from "./biomech";
+import { leadSideOf } from "./detectors";
+
+const IN = 0.0254, FT = 0.3048;
+
+// Official Baseball Rules 2.01 / 2.02 (metres)
+export const FIELD = {
+  plateWidth: 17 * IN,           // front edge, facing the pitcher
+  plateSide: 8.5 * IN,           // the two straight sides; the back edges meet at the point (origin)
+  rubberDist: 60.5 * FT,         // plate point → front edge of the rubber
+  rubberWidth: 24 * IN,
+  rubberDepth: 6 * IN,
+  rubberHeight: 10 * IN,         // above the plate
+  moundCenter: 59 * FT,          // plate point → centre of the 18 ft circle
+  moundRadius: 9 * FT,
+  slopeStart: 6 * IN,            // in front of the rubber the mound falls 1 in per ft…
+  slopeLength: 6 * FT,           // …for 6 ft
+  boxWidth: 4 * FT,
+  boxLength: 6 * FT,
+  boxGap: 6 * IN,                // plate side → inside line of the box
+  boxAhead: 3 * FT,              // front line of the box ahead of the plate's centre
+};
+
+// Strike zone top / bottom as a share of standing height (league-average shoulders-to-belt midpoint, below the knee)
+export const ZONE_TOP = 0.55;
+export const ZONE_BOTTOM = 0.26;
+export const DEFAULT_HITTER_HEIGHT = 1.88;
+
+export type FieldSource = "pitcher" | "ball" | "anchored" | "assumed";
+
+/** Data axes of the field frame. Field-local points are [x catcher's right, y toward the mound, z up]. */
+export interface FieldFrame {
+  origin: V3;                    // back point of home plate, ground level
+  right: V3;
+  toMound: V3;
+  up: V3;
+  source: FieldSource;           // what fixed the mound direction (and, for "anchored", the origin)
+}
+
+const FAR_M = 10;                // a pitcher this far from the origin is standing on a field-placed mound
+const ANKLE_HEIGHT = 0.08;       // ankle joint above the sole
+const RIM_RUNOUT = 1.5;          // m over which the mound's sides fall to field level
+
+const dot = (a: V3, b: V3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: V3, b: V3): V3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const axis = (k: number, sign: number): V3 => [0, 1, 2].map((j) => (j === k ? (sign < 0 ? -1 : 1) : 0)) as V3;
+
+/** The principal data axis nearest to v, with v's sign; `skip` excludes an axis already taken. */
+function snapAxis(v: V3, skip = -1): V3 {
+  let k = -1;
+  for (let j = 0; j < 3; j++) if (j !== skip && (k < 0 || Math.abs(v[j]) > Math.abs(v[k]))) k = j;
+  return axis(k, v[k]);
+}
+
+/** Vertical data axis: the principal axis closest to pelvis → head a tenth into the clip. */
+export function upAxisOf(frames: TrackFrame[]): V3 | undefined {
+  if (!frames.length) return undefined;
+  const J = frames[Math.floor(frames.length * 0.1)].joints as Record<string, V3>;
+  const head = J.head, pelvis = J.pelvis;
+  return head && pelvis ? snapAxis([head[0] - pelvis[0], head[1] - pelvis[1], head[2] - pelvis[2]]) : undefined;
+}
+
+/** upAxisOf, or +Z (the ground plane yawDeg measures in) for a clip without a head and pelvis. */
+export function groundNormalOf(frames: TrackFrame[]): V3 {
+  return upAxisOf(frames) ?? [0, 0, 1];
+}
+
+function midAnkles(J: Record<string, V3>): V3 | undefined {
+  const l = J.lAnkle, r = J.rAnkle;
+  if (l && r) return [(l[0] + r[0]) / 2, (l[1] + r[1]) / 2, (l[2] + r[2]) / 2];
+  return l ?? r;
+}
+
+function build(up: V3, toMound: V3, origin: V3, source: FieldSource): FieldFrame {
+  return { origin, up, toMound, right: cross(toMound, up), source };
+}
+
+/**
+ * Hawk-Eye puts the plate at the origin with the pitcher ~18 m out along one horizontal axis. That
+ * axis comes from a pitcher standing far from the origin, else from the ball (release → plate), else
+ * from the HOME_BASE guess. A pitcher standing near the origin is in body-centred data: the rubber is
+ * then anchored under the pitcher's feet at the first frame.
+ */
+export function detectFieldFrame(input: {
+  frames: TrackFrame[];          // any track of the file, for the vertical axis
+  pitcher?: TrackFrame[];
+  ball?: ParsedBall;
+  flipHome?: boolean;
+}): FieldFrame | null {
+  const up = upAxisOf(input.frames) ?? upAxisOf(input.pitcher ?? []);
+  if (!up) return null;
+  const k = up.findIndex((v) => v !== 0);
+  const flat = (p: V3): V3 => { const q = p.slice() as V3; q[k] = 0; return q; };
+  const origin: V3 = [0, 0, 0];
+
+  const feet = input.pitcher?.length ? midAnkles(input.pitcher[0].joints as Record<string, V3>) : undefined;
+  if (feet && Math.hypot(...flat(feet)) >= FAR_M) return build(up, snapAxis(flat(feet), k), origin, "pitcher");
+
+  const s = input.ball?.samples ?? [];
+  if (s.length >= 2) {
+    const a = s[0].pos, b = s[s.length - 1].pos;
+    const d = flat([a[0] - b[0], a[1] - b[1], a[2] - b[2]]);
+    if (Math.hypot(...d) > 1) {
+      const toMound = snapAxis(d, k);
+      if (feet) return anchored(up, toMound, feet);
+      return build(up, toMound, origin, "ball");
+    }
+  }
+
+  const home = input.flipHome ? HOME_BASE.clone().multiplyScalar(-1) : HOME_BASE.clone();
+  const toMound = snapAxis([-home.x, -home.y, -home.z], k);
+  return feet ? anchored(up, toMound, feet) : build(up, toMound, origin, "assumed");
+}
+
+// Body-centred pitcher: plate point one rubber distance back from the feet, a rubber height below them
+function anchored(up: V3, toMound: V3, feet: V3): FieldFrame {
+  const d = FIELD.rubberDist + FIELD.rubberDepth / 2, h = FIELD.rubberHeight + ANKLE_HEIGHT;
+  const origin: V3 = [0, 1, 2].map((j) => feet[j] - toMound[j] * d - up[j] * h) as V3;
+  return build(up, toMound, origin, "anchored");
+}
+
+/** Data point → field-local [x, y, z]. */
+export function toField(f: FieldFrame, p: V3): V3 {
+  const d: V3 = [p[0] - f.origin[0], p[1] - f.origin[1], p[2] - f.origin[2]];
+  return [dot(d, f.right), dot(d, f.toMound), dot(d, f.up)];
+}
+
+/** Field-local [x, y, z] → data point. */
+export function fromField(f: FieldFrame, l: V3): V3 {
+  return [0, 1, 2].map((j) => f.origin[j] + l[0] * f.right[j] + l[1] * f.toMound[j] + l[2] * f.up[j]) as V3;
+}
+
+/** Mound surface height (m) at a field-local ground point: flat table around the rubber, 1:12 slope toward the plate. */
+export function moundHeight(x: number, y: number): number {
+  const r = Math.hypot(x, y - FIELD.moundCenter);
+  if (r >= FIELD.moundRadius) return 0;
+  const top = FIELD.rubberHeight;
+  const front = FIELD.moundCenter - FIELD.moundRadius;
+  const tableFront = FIELD.rubberDist - FIELD.slopeStart;
+  const slopeEnd = tableFront - FIELD.slopeLength;
+  let h = top;
+  if (y < slopeEnd) h = (top - FIELD.slopeLength / 12) * Math.max(0, (y - front) / (slopeEnd - front));
+  else if (y < tableFront) h = top - (tableFront - y) / 12;
+  // Sides and back run out to field level at the rim
+  return Math.max(0, Math.min(h, (top * (FIELD.moundRadius - r)) / RIM_RUNOUT));
+}
+
+/** Home plate outline, field-local, counter-clockwise from the point. */
+export function plateOutline(): [number, number][] {
+  const w = FIELD.plateWidth / 2, s = FIELD.plateSide;
+  return [[0, 0], [w, w], [w, w + s], [-w, w + s], [-w, w]];
+}
+
+/** Batter's box rectangles [xMin, xMax, yMin, yMax], catcher's left then right. */
+export function batterBoxes(): [number, number, number, number][] {
+  const inner = FIELD.plateWidth / 2 + FIELD.boxGap;
+  const yMax = (FIELD.plateWidth / 2 + FIELD.plateSide) / 2 + FIELD.boxAhead;
+  const yMin = yMax - FIELD.boxLength;
+  return [[-inner - FIELD.boxWidth, -inner, yMin, yMax], [inner, inner + FIELD.boxWidth, yMin, yMax]];
+}
+
+export function strikeZone(hitterHeight: number): { bottom: number; top: number } {
+  return { bottom: ZONE_BOTTOM * hitterHeight, top: ZONE_TOP * hitterHeight };
+}
+
+export interface PitcherFieldMeasures {
+  extension?: number;            // m, rubber front edge → release point toward the plate (Statcast extension)
+  releaseHeight?: number;        // m above the plate
+  releaseSide?: number;          // m off the rubber → plate line, + toward the throwing-arm side
+  strideLength?: number;         // m, drive ankle at the first frame → lead ankle at foot strike, on the ground
+  strideDirection?: number;      // deg vs. the rubber → plate line; + closed (toward the throwing-arm side)
+}
+
+/** Release from the throwing wrist at BR; stride from the first frame to FS. */
+export function pitcherFieldMeasures(
+  f: FieldFrame, frames: TrackFrame[], hand: Hand, anchors: { footStrike?: number; release?: number },
+): PitcherFieldMeasures {
+  const out: PitcherFieldMeasures = {};
+  if (!frames.length) return out;
+  const throwSide = hand === "L" ? "l" : "r";
+  const lead = leadSideOf(frames, hand) === "L" ? "l" : "r";
+  const drive = lead === "l" ? "r" : "l";
+  const at = (i: number | undefined, name: string) => (i != null ? (frames[i]?.joints[name] as V3 | undefined) : undefined);
+
+  // Throwing-arm side on the field x axis: where the arm is relative to the hips at release (or the first frame)
+  const armAt = (i: number) => {
+    const w = at(i, `${throwSide}Wrist`) ?? at(i, `${throwSide}Shoulder`), l = at(i, "lHip"), r = at(i, "rHip");
+    return w && l && r ? Math.sign(toField(f, w)[0] - (toField(f, l)[0] + toField(f, r)[0]) / 2) : 0;
+  };
+  const armSide = (anchors.release != null ? armAt(anchors.release) : 0) || armAt(0) || 1;
+
+  const rel = at(anchors.release, `${throwSide}Wrist`);
+  if (rel) {
+    const p = toField(f, rel);
+    out.extension = FIELD.rubberDist - p[1];
+    out.releaseHeight = p[2];
+    out.releaseSide = p[0] * armSide;
+  }
+  const a = at(0, `${drive}Ankle`), b = at(anchors.footStrike, `${lead}Ankle`);
+  if (a && b) {
+    const p = toField(f, a), q = toField(f, b);
+    const dx = (q[0] - p[0]) * armSide, dy = p[1] - q[1];
+    out.strideLength = Math.hypot(dx, dy);
+    out.strideDirection = (Math.atan2(dx, dy) * 180) / Math.PI;
+  }
+  return out;
+}
+
+export interface HitterFieldMeasures {
+  frame: number;
+  offPlate: number;              // m, feet midpoint → near edge of the plate, sideways
+  depth: number;                 // m, feet midpoint ahead (+) / behind (−) the plate's front edge
+  inBox: boolean;                // both ankles inside one batter's box
+}
+
+/** Stance position at `frame` (before the stride). */
+export function hitterFieldMeasures(f: FieldFrame, frames: TrackFrame[], frame = 0): HitterFieldMeasures | null {
+  const J = frames[frame]?.joints as Record<string, V3> | undefined;
+  const mid = J && midAnkles(J);
+  if (!J || !mid) return null;
+  const p = toField(f, mid);
+  const inside = (q: V3 | undefined) => !!q && batterBoxes().some(([x0, x1, y0, y1]) => {
+    const l = toField(f, q);
+    return l[0] >= x0 && l[0] <= x1 && l[1] >= y0 && l[1] <= y1;
+  });
+  return {
+    frame,
+    offPlate: Math.abs(p[0]) - FIELD.plateWidth / 2,
+    depth: p[1] - (FIELD.plateWidth / 2 + FIELD.plateSide),
+    inBox: inside(J.lAnkle) && inside(J.rAnkle),
+  };
+}
@@ -0,0 +1,127 @@
+// src/lib/filtering.ts
+// Zero-lag low-pass filtering of joint trajectories: a 2nd-order Butterworth run forward and backward
+// (4th-order, no phase shift), once per track, with its own cutoff per joint group.
+
+import type { PackedFrames } from "./trackPacking";
+import type { JointResolution } from "./jointProfiles";
+import { readJson, writeJson } from "./storage";
+
+export type FilterGroup = "trunk" | "arms" | "legs";
+
+export const FILTER_GROUP_LABEL: Record<FilterGroup, string> = {
+  trunk: "Head / trunk", arms: "Arms / hands", legs: "Legs / feet",
+};
+
+export interface FilterSettings {
+  enabled: boolean;
+  cutoffHz: Record<FilterGroup, number>;
+}
+
+// Distal segments move fastest in a throw, so they keep more bandwidth
+export const DEFAULT_FILTER: FilterSettings = { enabled: true, cutoffHz: { trunk: 10, arms: 18, legs: 12 } };
+
+const MIN_RUN = 4;               // shorter runs between gaps are left unfiltered
+const MAX_PAD = 15;              // samples of odd reflection at each end against start-up transients
+const NYQUIST_FRAC = 0.45;       // cutoffs are kept below this share of the sampling rate
+// Two passes attenuate more than one; raise the single-pass cutoff so the pair meets the requested one (Winter)
+const DOUBLE_PASS_CORRECTION = Math.pow(Math.SQRT2 - 1, 0.25);
+
+export function filterGroupOf(name: string): FilterGroup {
+  if (/Elbow|Wrist|Hand|Thumb|Index|Middle|Ring|Pinky/i.test(name)) return "arms";
+  if (/Knee|Ankle|Heel|Toe|Foot/i.test(name)) return "legs";
+  return "trunk";
+}
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+/** 2nd-order Butterworth low-pass by the bilinear transform. */
+export function butterworthLowpass(cutoffHz: number, sampleHz: number): Biquad {
+  const K = Math.tan((Math.PI * cutoffHz) / sampleHz);
+  const norm = 1 / (1 + Math.SQRT2 * K + K * K);
+  const b0 = K * K * norm;
+  return { b0, b1: 2 * b0, b2: b0, a1: 2 * (K * K - 1) * norm, a2: (1 - Math.SQRT2 * K + K * K) * norm };
+}
+
+function pass(x: number[], c: Biquad): number[] {
+  // History starts at the first sample: the filter's steady state for a constant input (unit DC gain)
+  let x1 = x[0], x2 = x[0], y1 = x[0], y2 = x[0];
+  return x.map((v) => {
+    const y = c.b0 * v + c.b1 * x1 + c.b2 * x2 - c.a1 * y1 - c.a2 * y2;
+    x2 = x1; x1 = v; y2 = y1; y1 = y;
+    return y;
+  });
+}
+
+/** Forward-backward pass over one gap-free run, padded with its odd reflection. */
+export function filtfilt(x: number[], c: Biquad): number[] {
+  const n = x.length;
+  const pad = Math.min(MAX_PAD, n - 1);
+  const head = Array.from({ length: pad }, (_, k) => 2 * x[0] - x[pad - k]);
+  const tail = Array.from({ length: pad }, (_, k) => 2 * x[n - 1] - x[n - 2 - k]);
+  const fwd = pass([...head, ...x, ...tail], c);
+  return pass(fwd.reverse(), c).reverse().slice(pad, pad + n);
+}
+
+/** Filter a series with NaN gaps: each finite run on its own, short runs untouched. */
+export function lowpassSeries(x: number[], cutoffHz: number, sampleHz: number): number[] {
+  const fc = Math.min(cutoffHz / DOUBLE_PASS_CORRECTION, NYQUIST_FRAC * sampleHz);
+  if (!(fc > 0) || !(sampleHz > 0)) return x.slice();
+  const c = butterworthLowpass(fc, sampleHz);
+  const out = x.slice();
+  for (let i = 0; i < x.length;) {
+    if (!Number.isFinite(x[i])) { i++; continue; }
+    let j = i;
+    while (j < x.length && Number.isFinite(x[j])) j++;
+    if (j - i >= MIN_RUN) filtfilt(x.slice(i, j), c).forEach((v, k) => { out[i + k] = v; });
+    i = j;
+  }
+  return out;
+}
+
+/** Sampling rate from the median frame interval; the filter treats frames as evenly spaced. */
+export function sampleRateOf(times: ArrayLike<number>): number {
+  const dts: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const dt = times[i] - times[i - 1];
+    if (dt > 0) dts.push(dt);
+  }
+  if (!dts.length) return 0;
+  dts.sort((a, b) => a - b);
+  return 1 / dts[dts.length >> 1];
+}
+
+/**
+ * A filtered copy of the packed frames. Joint groups come from the canonical name each vendor joint
+ * resolves to (the raw name for unmapped joints).
+ */
+export function filterPacked(p: PackedFrames, settings: FilterSettings, joints: JointResolution = {}): PackedFrames {
+  const J = p.jointNames.length, n = p.times.length;
+  const fs = sampleRateOf(p.times);
+  const canonical = new Map<string, string>();
+  for (const [c, names] of Object.entries(joints)) for (const name of names ?? []) canonical.set(name, c);
+
+  const positions = new Float32Array(p.positions);
+  for (let j = 0; j < J; j++) {
+    const name = p.jointNames[j];
+    const cutoff = settings.cutoffHz[filterGroupOf(canonical.get(name) ?? name)];
+    for (let axis = 0; axis < 3; axis++) {
+      const x: number[] = new Array(n);
+      for (let i = 0; i < n; i++) x[i] = p.positions[(i * J + j) * 3 + axis];
+      const y = lowpassSeries(x, cutoff, fs);
+      for (let i = 0; i < n; i++) positions[(i * J + j) * 3 + axis] = y[i];
+    }
+  }
+  return { jointNames: p.jointNames.slice(), times: new Float64Array(p.times), positions };
+}
+
+// ---- saved cutoffs (browser only) ----
+const FILTER_KEY = "hawkeye.filter";
+
+export function loadFilterSettings(): FilterSettings {
+  const s = readJson<Partial<FilterSettings>>(FILTER_KEY, {});
+  return { enabled: s.enabled ?? DEFAULT_FILTER.enabled, cutoffHz: { ...DEFAULT_FILTER.cutoffHz, ...s.cutoffHz } };
+}
+
+export function saveFilterSettings(s: FilterSettings) {
+  writeJson(FILTER_KEY, s);
+}
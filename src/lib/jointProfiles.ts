@@ -0,0 +1,215 @@
+// src/lib/jointProfiles.ts
+// Named joint-mapping profiles: vendor joint names → the canonical skeleton the app computes on.
+// A new naming convention only needs a profile (built-in here, or a custom one saved as JSON).
+
+import type { V3 } from "./parseHawkEye";
+import { readJson, writeJson } from "./storage";
+
+/** Joints the metrics and detectors read. */
+export const CORE_JOINTS = [
+  "head", "nose", "neck", "chest", "pelvis",
+  "lShoulder", "lElbow", "lWrist", "rShoulder", "rElbow", "rWrist",
+  "lHip", "lKnee", "lAnkle", "rHip", "rKnee", "rAnkle",
+  "lHeel", "lBigToe", "lSmallToe", "rHeel", "rBigToe", "rSmallToe",
+] as const;
+
+/** Render-only detail: face (facing), spine segments, hands and fingers (base knuckle → tip). */
+export const DETAIL_JOINTS = [
+  "lEye", "rEye", "lEar", "rEar",
+  "spineLower", "spineMid", "spineUpper",
+  "lHand", "lThumbBase", "lThumbTip", "lIndexBase", "lIndexTip", "lMiddleBase", "lMiddleTip",
+  "lRingBase", "lRingTip", "lPinkyBase", "lPinkyTip",
+  "rHand", "rThumbBase", "rThumbTip", "rIndexBase", "rIndexTip", "rMiddleBase", "rMiddleTip",
+  "rRingBase", "rRingTip", "rPinkyBase", "rPinkyTip",
+] as const;
+
+export const CANONICAL_JOINTS = [...CORE_JOINTS, ...DETAIL_JOINTS] as const;
+
+export type CanonicalJoint = (typeof CANONICAL_JOINTS)[number];
+
+export interface JointProfile {
+  id: string;
+  label: string;
+  builtin?: boolean;
+  /** Vendor names to try, in order, for each canonical joint (matched ignoring case and punctuation). */
+  map: Partial<Record<CanonicalJoint, string[]>>;
+}
+
+/** A profile applied to one track's joint names: canonical joint → present vendor names, in preference order. */
+export type JointResolution = Partial<Record<CanonicalJoint, string[]>>;
+
+const lr = (l: string[], r: string[]) => ({ l, r });
+// Hawk-Eye style finger names: lIndexBase | lIndex1 | lIndexMcp, lIndexTip | lIndex4 | lIndex
+const finger = (side: "l" | "r", f: string, part: "Base" | "Tip") => {
+  const long = side === "l" ? "left" : "right";
+  return part === "Base"
+    ? [`${side}${f}Base`, `${side}${f}1`, `${side}${f}Mcp`, `${long}${f}Base`]
+    : [`${side}${f}Tip`, `${side}${f}4`, `${side}${f}`, `${long}${f}Tip`, `${long}${f}`];
+};
+const fingers = (side: "l" | "r"): JointProfile["map"] => {
+  const out: JointProfile["map"] = {};
+  for (const f of ["Thumb", "Index", "Middle", "Ring", "Pinky"]) {
+    out[`${side}${f}Base` as CanonicalJoint] = finger(side, f, "Base");
+    out[`${side}${f}Tip` as CanonicalJoint] = finger(side, f, "Tip");
+  }
+  return out;
+};
+
+function sides(map: Record<string, { l: string[]; r: string[] }>): JointProfile["map"] {
+  const out: JointProfile["map"] = {};
+  for (const [k, v] of Object.entries(map)) {
+    out[`l${k}` as CanonicalJoint] = v.l;
+    out[`r${k}` as CanonicalJoint] = v.r;
+  }
+  return out;
+}
+
+export const HAWKEYE_PROFILE: JointProfile = {
+  id: "hawkeye",
+  label: "Hawk-Eye",
+  builtin: true,
+  map: {
+    head: ["head", "nose", "topHead"],
+    nose: ["nose"],
+    neck: ["neck", "c7", "neckBase"],
+    chest: ["chest", "midShoulder", "upperChest", "sternum"],
+    pelvis: ["midHip", "pelvis", "hipCenter", "pelvisCenter"],
+    spineLower: ["spineLower", "spine1", "lumbar", "lowerSpine"],
+    spineMid: ["spineMid", "spine2", "thoracic", "midSpine"],
+    spineUpper: ["spineUpper", "spine3", "upperSpine"],
+    ...fingers("l"),
+    ...fingers("r"),
+    ...sides({
+      Eye: lr(["lEye", "leftEye"], ["rEye", "rightEye"]),
+      Ear: lr(["lEar", "leftEar"], ["rEar", "rightEar"]),
+      Hand: lr(["lHand", "leftHand", "lPalm", "leftPalm"], ["rHand", "rightHand", "rPalm", "rightPalm"]),
+      Shoulder: lr(["lShoulder", "leftShoulder"], ["rShoulder", "rightShoulder"]),
+      Elbow: lr(["lElbow", "leftElbow"], ["rElbow", "rightElbow"]),
+      Wrist: lr(["lWrist", "leftWrist"], ["rWrist", "rightWrist"]),
+      Hip: lr(["lHip", "leftHip"], ["rHip", "rightHip"]),
+      Knee: lr(["lKnee", "leftKnee"], ["rKnee", "rightKnee"]),
+      // Ankle falls back to heel / toe when the export has no ankle point
+      Ankle: lr(
+        ["lAnkle", "leftAnkle", "lHeel", "leftHeel", "lBigToe", "leftBigToe"],
+        ["rAnkle", "rightAnkle", "rHeel", "rightHeel", "rBigToe", "rightBigToe"]
+      ),
+      Heel: lr(["lHeel", "leftHeel"], ["rHeel", "rightHeel"]),
+      BigToe: lr(["lBigToe", "leftBigToe"], ["rBigToe", "rightBigToe"]),
+      SmallToe: lr(["lSmallToe", "leftSmallToe"], ["rSmallToe", "rightSmallToe"]),
+    }),
+  },
+};
+
+export const COCO_PROFILE: JointProfile = {
+  id: "coco",
+  label: "COCO-17",
+  builtin: true,
+  map: {
+    head: ["nose"],
+    nose: ["nose"],
+    ...sides({
+      Eye: lr(["left_eye"], ["right_eye"]),
+      Ear: lr(["left_ear"], ["right_ear"]),
+      Shoulder: lr(["left_shoulder"], ["right_shoulder"]),
+      Elbow: lr(["left_elbow"], ["right_elbow"]),
+      Wrist: lr(["left_wrist"], ["right_wrist"]),
+      Hip: lr(["left_hip"], ["right_hip"]),
+      Knee: lr(["left_knee"], ["right_knee"]),
+      Ankle: lr(["left_ankle"], ["right_ankle"]),
+    }),
+  },
+};
+
+export const BODY25_PROFILE: JointProfile = {
+  id: "body25",
+  label: "OpenPose BODY_25",
+  builtin: true,
+  map: {
+    head: ["Nose", "0"],
+    nose: ["Nose", "0"],
+    neck: ["Neck", "1"],
+    pelvis: ["MidHip", "8"],
+    ...sides({
+      Eye: lr(["LEye", "16"], ["REye", "15"]),
+      Ear: lr(["LEar", "18"], ["REar", "17"]),
+      Shoulder: lr(["LShoulder", "5"], ["RShoulder", "2"]),
+      Elbow: lr(["LElbow", "6"], ["RElbow", "3"]),
+      Wrist: lr(["LWrist", "7"], ["RWrist", "4"]),
+      Hip: lr(["LHip", "12"], ["RHip", "9"]),
+      Knee: lr(["LKnee", "13"], ["RKnee", "10"]),
+      Ankle: lr(["LAnkle", "14"], ["RAnkle", "11"]),
+      BigToe: lr(["LBigToe", "19"], ["RBigToe", "22"]),
+      SmallToe: lr(["LSmallToe", "20"], ["RSmallToe", "23"]),
+      Heel: lr(["LHeel", "21"], ["RHeel", "24"]),
+    }),
+  },
+};
+
+export const BUILTIN_PROFILES: JointProfile[] = [HAWKEYE_PROFILE, COCO_PROFILE, BODY25_PROFILE];
+
+// Matching ignores case and punctuation (left_shoulder ≡ leftShoulder), digits kept for BODY_25 indices
+const norm = (s: string) => s.replace(/[^a-z0-9]/gi, "").toLowerCase();
+
+export function resolveProfile(profile: JointProfile, jointNames: string[]): JointResolution {
+  const byNorm = new Map<string, string>();
+  for (const n of jointNames) if (!byNorm.has(norm(n))) byNorm.set(norm(n), n);
+  const out: JointResolution = {};
+  for (const c of CANONICAL_JOINTS) {
+    const present = (profile.map[c] ?? []).map((n) => byNorm.get(norm(n))).filter((n): n is string => !!n);
+    if (present.length) out[c] = [...new Set(present)];
+  }
+  return out;
+}
+
+export function resolvedCount(res: JointResolution, joints: readonly CanonicalJoint[] = CORE_JOINTS): number {
+  return joints.filter((c) => res[c]?.length).length;
+}
+
+/** Profile that resolves the most canonical joints for these names (ties keep list order). */
+export function autoSelectProfile(jointNames: string[], profiles: JointProfile[] = BUILTIN_PROFILES): JointProfile {
+  let best = profiles[0], bestN = -1;
+  for (const p of profiles) {
+    const n = resolvedCount(resolveProfile(p, jointNames));
+    if (n > bestN) { best = p; bestN = n; }
+  }
+  return best;
+}
+
+/** Canonical joint map for one frame; vendor joints no profile entry consumed are kept under their own names. */
+export function canonicalizeJoints(J: Record<string, V3>, res: JointResolution): Record<string, V3> {
+  const out: Record<string, V3> = {};
+  const used = new Set<string>();
+  for (const c of CANONICAL_JOINTS) {
+    const names = res[c];
+    if (!names) continue;
+    for (const n of names) used.add(n);
+    for (const n of names) if (J[n]) { out[c] = J[n]; break; }
+  }
+  for (const [k, v] of Object.entries(J)) if (!used.has(k) && !(k in out)) out[k] = v;
+  return out;
+}
+
+// ---- custom profiles (browser only) ----
+const CUSTOM_KEY = "hawkeye.jointProfiles";
+const BY_FILE_KEY = "hawkeye.jointProfileByFile";
+
+export function loadCustomProfiles(): JointProfile[] {
+  return readJson<JointProfile[]>(CUSTOM_KEY, []).filter(isJointProfile).map((p) => ({ ...p, builtin: false }));
+}
+
+export function saveCustomProfiles(profiles: JointProfile[]) {
+  writeJson(CUSTOM_KEY, profiles.filter((p) => !p.builtin));
+}
+
+export function loadProfileChoices(): Record<string, string> {
+  return readJson<Record<string, string>>(BY_FILE_KEY, {});
+}
+
+export function saveProfileChoices(choices: Record<string, string>) {
+  writeJson(BY_FILE_KEY, choices);
+}
+
+export function isJointProfile(x: any): x is JointProfile {
+  return !!x && typeof x.id === "string" && typeof x.label === "string" && !!x.map && typeof x.map === "object" &&
+    Object.values(x.map).every((v) => Array.isArray(v) && v.every((n) => typeof n === "string"));
+}
@@ -0,0 +1,70 @@
+// src/lib/kinematicSequence.ts
+// Peak angular velocities of pelvis → trunk → elbow extension → shoulder internal rotation around
+// the delivery, their timing relative to release, and whether they peaked proximal to distal.
+
+import type { BiomechSeries } from "./biomech";
+
+export type SequenceSegment = "pelvis" | "trunk" | "elbow" | "shoulderIR";
+
+export const SEQUENCE_SEGMENTS: { id: SequenceSegment; label: string; color: string; key: keyof BiomechSeries }[] = [
+  { id: "pelvis", label: "Pelvis", color: "#38bdf8", key: "pelvisAngVel" },
+  { id: "trunk", label: "Trunk", color: "#22c55e", key: "trunkAngVel" },
+  { id: "elbow", label: "Elbow ext", color: "#f97316", key: "elbowExtVel" },
+  { id: "shoulderIR", label: "Shoulder IR", color: "#f472b6", key: "shoulderIRVel" },
+];
+
+export interface SegmentPeak {
+  id: SequenceSegment;
+  label: string;
+  color: string;
+  frame: number;
+  value: number;                 // deg/s
+  msFromRelease?: number;        // − before release
+}
+
+export interface KinematicSequence {
+  peaks: SegmentPeak[];          // proximal → distal; a segment without data is left out
+  order: SequenceSegment[];      // segments sorted by peak time
+  proximalToDistal: boolean;     // every peak at or after the previous segment's
+  window: [number, number];      // frames searched
+}
+
+const PRE_FS_S = 0.1;            // window opens this long before foot strike
+const POST_BR_S = 0.1;           // … and closes this long after release
+
+/**
+ * Peaks are searched from just before foot strike to just after release; without foot strike the
+ * window opens 0.5 s before release, and without release nothing is reported.
+ */
+export function analyzeKinematicSequence(
+  series: BiomechSeries, frames: { time: number }[], anchors: { footStrike?: number; release?: number },
+): KinematicSequence | null {
+  const n = frames.length;
+  const br = anchors.release;
+  if (br == null || !n) return null;
+  const tBr = frames[br]?.time ?? 0;
+  const fsTime = anchors.footStrike != null ? frames[anchors.footStrike]?.time : undefined;
+  const t0 = (fsTime ?? tBr - 0.4) - PRE_FS_S, t1 = tBr + POST_BR_S;
+  let lo = 0, hi = n - 1;
+  while (lo < n - 1 && frames[lo].time < t0) lo++;
+  while (hi > 0 && frames[hi].time > t1) hi--;
+  if (hi <= lo) return null;
+
+  const peaks: SegmentPeak[] = [];
+  for (const s of SEQUENCE_SEGMENTS) {
+    const v = series[s.key];
+    let best = -1;
+    for (let i = lo; i <= hi; i++) {
+      if (Number.isFinite(v[i]) && (best < 0 || v[i] > v[best])) best = i;
+    }
+    if (best < 0) continue;
+    peaks.push({
+      id: s.id, label: s.label, color: s.color, frame: best, value: v[best],
+      msFromRelease: (frames[best].time - tBr) * 1000,
+    });
+  }
+
+  const order = peaks.slice().sort((a, b) => a.frame - b.frame).map((p) => p.id);
+  const proximalToDistal = peaks.length > 1 && peaks.every((p, k) => !k || p.frame >= peaks[k - 1].frame);
+  return { peaks, order, proximalToDistal, window: [lo, hi] };
+}
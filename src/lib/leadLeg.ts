@@ -0,0 +1,102 @@
+// src/lib/leadLeg.ts
+// Lead-leg block between foot strike and release: knee flexion at both events, peak knee extension
+// velocity, and how hard the lead ankle and hip brake their ground-plane velocity toward home.
+
+import * as THREE from "three";
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { HOME_BASE, linearVelocity, type BiomechSeries, type Hand } from "./biomech";
+import { leadSideOf, type Side } from "./detectors";
+
+export interface TimedValue {
+  value: number;
+  frame: number;
+  msFromFs: number;
+  msFromRelease: number;         // − before release
+}
+
+export interface Braking {
+  velAtFs: number;               // m/s toward home (ground plane)
+  velAtBr: number;
+  peakDecel?: TimedValue;        // m/s², largest drop in velocity toward home
+}
+
+export interface LeadLegBlock {
+  side: Side;
+  kneeFlexAtFs?: number;         // deg, 0 = straight
+  kneeFlexAtBr?: number;
+  kneeFlexChange?: number;       // BR − FS; negative = the knee extended into release (a firm block)
+  peakKneeExtVel?: TimedValue;   // deg/s
+  ankle?: Braking;
+  hip?: Braking;
+  kneeExtVel: number[];          // [frame] deg/s, + while the lead knee extends
+  window: [number, number];      // frames searched (FS → shortly after release)
+}
+
+const POST_BR_S = 0.05;          // extension often peaks just after release
+const PRE_FS_S = 0.05;           // the ankle's braking starts as the foot lands
+
+function timed(frames: TrackFrame[], i: number, fs: number, br: number, value: number): TimedValue {
+  return {
+    value, frame: i,
+    msFromFs: (frames[i].time - frames[fs].time) * 1000,
+    msFromRelease: (frames[i].time - frames[br].time) * 1000,
+  };
+}
+
+function braking(frames: TrackFrame[], times: number[], name: string, home: V3, fs: number, br: number, lo: number, hi: number): Braking | undefined {
+  // Velocity along home on the ground (`home` already lies in the ground plane)
+  const along = frames.map((f) => {
+    const p = f.joints[name] as V3 | undefined;
+    return p ? p[0] * home[0] + p[1] * home[1] + p[2] * home[2] : NaN;
+  });
+  const vel = linearVelocity(along, times);
+  const acc = linearVelocity(vel, times);
+  if (!Number.isFinite(vel[fs]) || !Number.isFinite(vel[br])) return undefined;
+  let best = -1;
+  for (let i = lo; i <= hi; i++) if (Number.isFinite(acc[i]) && (best < 0 || acc[i] < acc[best])) best = i;
+  return {
+    velAtFs: vel[fs], velAtBr: vel[br],
+    peakDecel: best >= 0 && acc[best] < 0 ? timed(frames, best, fs, br, -acc[best]) : undefined,
+  };
+}
+
+/**
+ * Needs both foot strike and release. Knee flexion is 180° minus biomech's thigh–shank angle; the
+ * throwing hand picks the lead leg (the other one), as in the detectors. `up` is the clip's ground
+ * normal (fieldGeometry's groundNormalOf).
+ */
+export function analyzeLeadLeg(
+  series: BiomechSeries, frames: TrackFrame[], hand: Hand,
+  anchors: { footStrike?: number; release?: number }, up: V3, flipHome = false,
+): LeadLegBlock | null {
+  const fs = anchors.footStrike, br = anchors.release, n = frames.length;
+  if (fs == null || br == null || br <= fs || br >= n) return null;
+  const side = leadSideOf(frames, hand);
+  const times = frames.map((f) => f.time);
+  const knee = side === "L" ? series.lKnee : series.rKnee;
+  const flex = (i: number) => (Number.isFinite(knee[i]) ? 180 - knee[i] : undefined);
+  const kneeExtVel = linearVelocity(knee, times);
+
+  let hi = br;
+  while (hi < n - 1 && frames[hi + 1].time - frames[br].time <= POST_BR_S) hi++;
+  let lo = fs;
+  while (lo > 0 && frames[fs].time - frames[lo - 1].time <= PRE_FS_S) lo--;
+
+  let peak = -1;
+  for (let i = fs; i <= hi; i++) if (Number.isFinite(kneeExtVel[i]) && (peak < 0 || kneeExtVel[i] > kneeExtVel[peak])) peak = i;
+
+  const home = HOME_BASE.clone().multiplyScalar(flipHome ? -1 : 1).projectOnPlane(new THREE.Vector3(...up)).normalize().toArray() as V3;
+  const s = side === "L" ? "l" : "r";
+  const atFs = flex(fs), atBr = flex(br);
+  return {
+    side,
+    kneeFlexAtFs: atFs,
+    kneeFlexAtBr: atBr,
+    kneeFlexChange: atFs != null && atBr != null ? atBr - atFs : undefined,
+    peakKneeExtVel: peak >= 0 && kneeExtVel[peak] > 0 ? timed(frames, peak, fs, br, kneeExtVel[peak]) : undefined,
+    ankle: braking(frames, times, `${s}Ankle`, home, fs, br, lo, br),
+    hip: braking(frames, times, `${s}Hip`, home, fs, br, fs, br),
+    kneeExtVel,
+    window: [lo, hi],
+  };
+}
@@ -0,0 +1,188 @@
+// src/lib/metrics.ts
+// One metric model for pitch and hit constants: every value carries its unit, the JSON path it
+// came from, and the conversion applied — so a 40 (m/s) is never shown as 40 mph.
+
+export type MetricUnit = "mph" | "m/s" | "km/h" | "in" | "cm" | "mm" | "m" | "ft" | "deg";
+
+export interface MetricValue {
+  value: number;                 // in `unit`
+  unit: MetricUnit;              // display unit
+  source: string;                // JSON path, e.g. "details.pitch.releaseSpeed"
+  rawValue: number;
+  rawUnit: MetricUnit;
+  conversion?: string;           // e.g. "m/s × 2.23694"
+  unitInferred?: boolean;        // the field carried no unit; rawUnit was guessed (FieldSpec.infer)
+}
+
+export interface PitchMetrics {
+  velocity: MetricValue | null;
+  ivb: MetricValue | null;
+  hb: MetricValue | null;
+  extension: MetricValue | null;
+}
+
+export interface HitMetrics {
+  exitVelocity: MetricValue | null;
+  launchAngle: MetricValue | null;
+  batSpeed: MetricValue | null;
+  swingPathTilt: MetricValue | null;
+  attackDirection: MetricValue | null;
+  attackAngle: MetricValue | null;
+}
+
+// ---- unit conversion ----
+const FACTORS: Record<string, number> = {
+  "m/s>mph": 2.23694, "km/h>mph": 0.621371,
+  "m>in": 39.3701, "cm>in": 1 / 2.54, "mm>in": 1 / 25.4, "ft>in": 12,
+  "m>ft": 3.28084, "in>ft": 1 / 12, "cm>ft": 1 / 30.48,
+};
+
+export function convertMetric(v: number, from: MetricUnit, to: MetricUnit): number | null {
+  if (from === to) return v;
+  const f = FACTORS[`${from}>${to}`];
+  return f == null ? null : v * f;
+}
+
+export function mphFromMs(ms: number) {
+  return ms * FACTORS["m/s>mph"];
+}
+
+const UNIT_ALIASES: Record<string, MetricUnit> = {
+  mph: "mph", "mi/h": "mph", ms: "m/s", "m/s": "m/s", mps: "m/s", kph: "km/h", kmh: "km/h", "km/h": "km/h",
+  in: "in", inch: "in", inches: "in", cm: "cm", mm: "mm", m: "m", meters: "m", metres: "m",
+  ft: "ft", feet: "ft", deg: "deg", degrees: "deg", "°": "deg",
+};
+
+// ---- candidate fields ----
+type Infer = (v: number) => MetricUnit;
+
+/** A field to look for: explicit unit, or a guess from magnitude for vendor fields that carry none. */
+interface FieldSpec { key: string; unit?: MetricUnit; infer?: Infer }
+
+// Pitches are 60–105 mph (27–47 m/s); extension 4.5–7.5 ft (1.4–2.3 m); break in m stays under 1
+const inferPitchSpeed: Infer = (v) => (Math.abs(v) < 60 ? "m/s" : "mph");
+const inferBreak: Infer = (v) => (Math.abs(v) < 1 ? "m" : "in");
+const inferExtension: Infer = (v) => (Math.abs(v) < 3.5 ? "m" : "ft");
+const assume = (u: MetricUnit): Infer => () => u;
+
+function resolvePath(root: any, path: string): any {
+  let node = root;
+  for (const seg of path.split(".")) {
+    if (node == null) return undefined;
+    // "events[PITCH]" → first element of events whose type matches
+    const m = seg.match(/^(\w+)\[(\w+)\]$/);
+    if (m) {
+      const arr = node[m[1]];
+      node = Array.isArray(arr) ? arr.find((e: any) => String(e?.type || "").toUpperCase() === m[2]) : undefined;
+    } else {
+      node = node[seg];
+    }
+  }
+  return node;
+}
+
+function readField(root: any, path: string, spec: FieldSpec): { raw: number; unit: MetricUnit; inferred: boolean } | null {
+  const v = resolvePath(root, path);
+  if (v == null) return null;
+  // { value, unit } objects state their own unit
+  const stated = typeof v === "object" ? UNIT_ALIASES[String(v.unit ?? v.units ?? "").toLowerCase()] : undefined;
+  const raw = Number(typeof v === "object" ? v.value : v);
+  if (!Number.isFinite(raw)) return null;
+  if (stated) return { raw, unit: stated, inferred: false };
+  if (spec.unit) return { raw, unit: spec.unit, inferred: false };
+  return { raw, unit: (spec.infer ?? assume("mph"))(raw), inferred: true };
+}
+
+function findMetric(root: any, containers: string[], fields: FieldSpec[], display: MetricUnit): MetricValue | null {
+  for (const spec of fields) {
+    for (const c of containers) {
+      const path = c ? `${c}.${spec.key}` : spec.key;
+      const hit = readField(root, path, spec);
+      if (!hit) continue;
+      const value = convertMetric(hit.raw, hit.unit, display);
+      if (value == null) continue;
+      const out: MetricValue = { value, unit: display, source: path, rawValue: hit.raw, rawUnit: hit.unit };
+      if (hit.unit !== display) out.conversion = `${hit.unit} × ${+FACTORS[`${hit.unit}>${display}`].toPrecision(6)}`;
+      if (hit.inferred) out.unitInferred = true;
+      return out;
+    }
+  }
+  return null;
+}
+
+const PITCH_CONTAINERS = [
+  "pitch", "pitchData", "details.pitch", "metrics.pitch", "events[PITCH]", "details.events[PITCH]",
+  "trackman", "metrics", "details", "ball", "samples.ball.0",
+];
+
+const HIT_CONTAINERS = [
+  "battedBall", "contact", "events[CONTACT]", "details.events[CONTACT]", "details.contact",
+  "swing", "metrics.swing", "metrics.bat", "metrics", "details",
+];
+
+export function extractPitchMetrics(root: any): PitchMetrics {
+  return {
+    velocity: findMetric(root, PITCH_CONTAINERS, [
+      { key: "velocityMph", unit: "mph" }, { key: "pitchVelocityMph", unit: "mph" }, { key: "veloMph", unit: "mph" },
+      { key: "speedMph", unit: "mph" }, { key: "speed.mph", unit: "mph" },
+      { key: "velocityMs", unit: "m/s" }, { key: "pitchVelocityMs", unit: "m/s" }, { key: "speedMs", unit: "m/s" },
+      { key: "speed.mps", unit: "m/s" },
+      { key: "velocityKph", unit: "km/h" }, { key: "speed.kph", unit: "km/h" },
+      { key: "releaseSpeed", infer: inferPitchSpeed }, { key: "releaseVelocity", infer: inferPitchSpeed },
+      { key: "pitchVelocity", infer: inferPitchSpeed },
+    ], "mph"),
+    ivb: findMetric(root, PITCH_CONTAINERS, [
+      { key: "inducedVerticalBreakIn", unit: "in" }, { key: "inducedVertBreakIn", unit: "in" },
+      { key: "ivbInches", unit: "in" }, { key: "ivbIn", unit: "in" }, { key: "ivb_in", unit: "in" },
+      { key: "verticalBreakIn", unit: "in" },
+      { key: "inducedVerticalBreakM", unit: "m" }, { key: "ivbMeters", unit: "m" }, { key: "ivb_m", unit: "m" },
+      { key: "inducedVertBreakCm", unit: "cm" }, { key: "inducedVertBreakMm", unit: "mm" },
+      { key: "inducedVerticalBreak", infer: inferBreak }, { key: "ivb", infer: inferBreak },
+    ], "in"),
+    hb: findMetric(root, PITCH_CONTAINERS, [
+      { key: "horizontalBreakIn", unit: "in" }, { key: "hbInches", unit: "in" }, { key: "hbIn", unit: "in" },
+      { key: "hBreakIn", unit: "in" },
+      { key: "horizontalBreakM", unit: "m" }, { key: "hbMeters", unit: "m" }, { key: "hBreakM", unit: "m" },
+      { key: "horizontalBreakCm", unit: "cm" }, { key: "horizontalBreakMm", unit: "mm" },
+      { key: "horizontalBreak", infer: inferBreak }, { key: "hBreak", infer: inferBreak }, { key: "hb", infer: inferBreak },
+    ], "in"),
+    extension: findMetric(root, PITCH_CONTAINERS, [
+      { key: "extensionFt", unit: "ft" }, { key: "releaseExtensionFt", unit: "ft" },
+      { key: "extensionM", unit: "m" }, { key: "releaseExtensionM", unit: "m" },
+      { key: "extension", infer: inferExtension }, { key: "releaseExtension", infer: inferExtension },
+    ], "ft"),
+  };
+}
+
+export function extractHitMetrics(root: any): HitMetrics {
+  const deg = (...keys: string[]): FieldSpec[] => keys.map((key) => ({ key, unit: "deg" as const }));
+  return {
+    exitVelocity: findMetric(root, HIT_CONTAINERS, [
+      { key: "exitVelocityMph", unit: "mph" }, { key: "evMph", unit: "mph" }, { key: "exitVeloMph", unit: "mph" },
+      { key: "exitVelocityMs", unit: "m/s" }, { key: "evMs", unit: "m/s" },
+      { key: "exitVelocityKph", unit: "km/h" },
+      { key: "exitVelocity", infer: assume("mph") }, { key: "launchSpeed", infer: assume("mph") },
+    ], "mph"),
+    launchAngle: findMetric(root, HIT_CONTAINERS, deg("launchAngleDeg", "laDeg", "launchAngle"), "deg"),
+    batSpeed: findMetric(root, HIT_CONTAINERS, [
+      { key: "batSpeedMph", unit: "mph" }, { key: "swingSpeedMph", unit: "mph" }, { key: "batVelocityMph", unit: "mph" },
+      { key: "batSpeedMs", unit: "m/s" }, { key: "batSpeedKph", unit: "km/h" },
+    ], "mph"),
+    swingPathTilt: findMetric(root, HIT_CONTAINERS, deg("swingPathTiltDeg", "swingTiltDeg", "pathTiltDeg"), "deg"),
+    attackDirection: findMetric(root, HIT_CONTAINERS, deg("attackDirectionDeg", "attackDirDeg"), "deg"),
+    attackAngle: findMetric(root, HIT_CONTAINERS, deg("attackAngleDeg", "attackAngle"), "deg"),
+  };
+}
+
+// ---- display ----
+export function formatMetric(m: MetricValue | null | undefined, digits = 1): string {
+  return m ? `${m.value.toFixed(digits)} ${m.unit === "deg" ? "°" : m.unit}` : "-";
+}
+
+/** Tooltip text: where the number came from and what was done to it. */
+export function describeMetric(m: MetricValue | null | undefined): string {
+  if (!m) return "Not found in file";
+  const lines = [`Source: ${m.source}`, `Raw: ${m.rawValue} ${m.rawUnit}${m.unitInferred ? " (unit inferred from magnitude)" : ""}`];
+  if (m.conversion) lines.push(`Converted: ${m.conversion} → ${m.unit}`);
+  return lines.join("\n");
+}
@@ -1,38 +1,97 @@
 // src/lib/parseHawkEye.ts
 
+import { extractHitMetrics, extractPitchMetrics, type HitMetrics, type PitchMetrics } from "./metrics";
+import { extractEvents, type TimelineEvent } from "./events";
+import { utcSeconds } from "./clipTime";
+
 export type V3 = [number, number, number];
 
+export interface TrackFrame {
+  time: number;                  // seconds since clip start
+  joints: Record<string, V3>;
+}
+
+export interface BallSample {
+  time: number;                  // seconds, same clock as ParsedTrack.frames[].time
+  pos: V3;
+}
+
+export interface ParsedBall {
+  samples: BallSample[];         // sorted by time; release → plate for a pitch export
+}
+
+export interface BatSample {
+  time: number;                  // seconds, same clock as ParsedTrack.frames[].time
+  handle: V3;
+  head: V3;
+}
+
+export interface ParsedBat {
+  samples: BatSample[];          // sorted by time
+}
+
+export interface FrameTiming {
+  timeSource: "utc" | "samples" | "index";  // where frames[].time came from
+  fpsSource: "file" | "samples" | "default";
+  medianDt: number;                           // seconds between kept frames
+  gaps: { frame: number; dt: number }[];      // frames[frame] arrives dt after frames[frame - 1]
+  duplicates: number;                         // frames dropped for repeated / out-of-order time
+  untimed: number;                            // frames dropped for a missing timestamp
+}
+
 export interface ParsedTrack {
   role: string;                  // "pitcher" | "hitter" | "batter" | "unknown"
   name?: string;                 // from players[] when available
   personId?: any;
-  fps: number;                   // frame rate used
-  frames: { time: number; joints: Record<string, V3> }[];
-  // Optional metric bags (you can extend later; safe to leave empty)
-  pitchMetrics?: {
-    velocityMph?: number | null;
-    ivbInches?: number | null;
-    hbInches?: number | null;
-    extensionFt?: number | null;
-  };
-  hitMetrics?: {
-    evMph?: number | null;
-    laDeg?: number | null;
-    batSpeedMph?: number | null;
-    swingPathTiltDeg?: number | null;
-    attackDirectionDeg?: number | null;
-    attackAngleDeg?: number | null;
-  };
+  fps: number;                   // nominal frame rate (file, else measured from sample times)
+  frames: TrackFrame[];
+  clipStartUTC?: string;         // t = 0 for frames/ball/bat; events in UTC subtract this
+  timing: FrameTiming;
+  ball?: ParsedBall;             // ball flight from the same file (shared timebase)
+  bat?: ParsedBat;               // hitter tracks only
+  // Per-file constants with unit + provenance (lib/metrics)
+  pitchMetrics?: PitchMetrics;
+  hitMetrics?: HitMetrics;
+  events?: TimelineEvent[];      // file-level event timeline, seconds on the frames' clock
+}
+
+export interface PersonReport {
+  index: number;                 // position in samples.people
+  personId?: any;
+  name?: string;
+  rawRole: string;               // role as written in the file
+  role: string;                  // normalized role
+  frames: number;                // frames kept after timing checks
+  fps: number;
+  fpsSource: FrameTiming["fpsSource"];
+  timeSource: FrameTiming["timeSource"];
+  gaps: number;
+  duplicates: number;
+  untimed: number;
+  droppedJoints: Record<string, number>;   // joint name → frames where its value was non-finite
+  skipped?: string;              // why this person produced no track
+}
+
+export interface ParseReport {
+  adapter?: string;              // id of the schema adapter that produced the tracks
+  people: PersonReport[];
+  unrecognizedRoles: string[];   // raw roles that normalize to neither pitcher nor hitter
+  missingMetrics: string[];      // e.g. "pitch.velocityMph" when no source field was found
+  hasBall: boolean;
+  hasBat: boolean;
+  events: number;                // timeline events with a usable time
+  notes: string[];               // file-level problems (no people array, …)
+}
+
+export interface ParseResult {
+  tracks: ParsedTrack[];
+  report: ParseReport;
 }
 
 function num(v: any): number | null {
   const n = Number(v);
   return Number.isFinite(n) ? n : null;
 }
-function firstDefined<T>(...vals: (T | null | undefined)[]): T | undefined {
-  for (const v of vals) if (v !== undefined && v !== null) return v as T;
-  return undefined;
-}
 
 function normalizeRole(raw: any): string {
   const s = (raw?.name ?? raw ?? "").toString().toLowerCase();
@@ -41,33 +100,185 @@ function normalizeRole(raw: any): string {
   return s || "unknown";
 }
 
-function extractFPS(root: any, person?: any): number {
+const DEFAULT_FPS = 300;         // only when neither the file nor the sample times say otherwise
+const GAP_FACTOR = 1.5;          // dt above this × median dt counts as dropped frames
+
+interface Clock { startUTC?: string; startSec?: number }
+
+function sampleTime(s: any, clock: Clock): number | null {
+  if (clock.startSec != null) {
+    const u = utcSeconds(s?.timeUTC ?? s?.utc);
+    if (u != null) return u - clock.startSec;
+  }
+  return num(s?.time ?? s?.t);
+}
+
+function firstArray(...vals: any[]): any[] | null {
+  for (const v of vals) if (Array.isArray(v) && v.length) return v;
+  return null;
+}
+
+function extractClipStart(root: any, people: any[]): Clock {
+  const explicit =
+    root?.time?.startUTC ??
+    root?.timeline?.startUTC ??
+    root?.meta?.startUTC ??
+    root?.samples?.startUTC ??
+    null;
+  let startUTC: string | undefined = utcSeconds(explicit) != null ? explicit : undefined;
+
+  // No declared start: earliest sample UTC across people, ball and bat
+  if (!startUTC) {
+    const candidates: any[] = [];
+    for (const p of people) {
+      candidates.push(firstArray(p?.timeUTC, p?.timesUTC, p?.utc)?.[0]);
+      candidates.push(Array.isArray(p?.joints) ? p.joints[0]?.timeUTC : undefined);
+    }
+    candidates.push(root?.samples?.ball?.[0]?.timeUTC, root?.samples?.bat?.[0]?.timeUTC);
+    let best: number | null = null;
+    for (const c of candidates) {
+      const u = utcSeconds(c);
+      if (u != null && (best == null || u < best)) { best = u; startUTC = c; }
+    }
+  }
+  return { startUTC, startSec: utcSeconds(startUTC) ?? undefined };
+}
+
+function extractFPS(root: any, person?: any): number | null {
   return (
     num(person?.system?.targetFrameRate) ??
     num(root?.samples?.system?.targetFrameRate) ??
-    num(root?.system?.targetFrameRate) ??
-    300
-  ) as number;
+    num(root?.system?.targetFrameRate)
+  );
 }
 
-function buildFramesFromPerson(person: any, fps: number) {
+function buildFramesFromPerson(person: any, fileFps: number | null, clock: Clock) {
   // Hawkeye form: person.joints = Array< Record<string, V3> >
+  // Times: person.timeUTC[] / person.time[] in parallel, or embedded per entry; else index / fps
+  const frames: TrackFrame[] = [];
+  const droppedJoints: Record<string, number> = {};
   const jointsArr = Array.isArray(person?.joints) ? person.joints : null;
-  if (!jointsArr || !jointsArr.length) return [] as { time: number; joints: Record<string, V3> }[];
+  const timing: FrameTiming = {
+    timeSource: "index", fpsSource: fileFps != null ? "file" : "default",
+    medianDt: 0, gaps: [], duplicates: 0, untimed: 0,
+  };
+  if (!jointsArr || !jointsArr.length) return { frames, timing, fps: fileFps ?? DEFAULT_FPS, droppedJoints };
+
+  const utcArr = firstArray(person?.timeUTC, person?.timesUTC, person?.utc);
+  const secArr = firstArray(person?.time, person?.times, person?.timestamps);
+  const timeAt = (J: any, i: number): number | null => {
+    if (clock.startSec != null) {
+      const u = utcSeconds(utcArr ? utcArr[i] : J?.timeUTC);
+      if (u != null) return u - clock.startSec;
+    }
+    return num(secArr ? secArr[i] : J?.time);
+  };
+  const hasUtc = clock.startSec != null && (utcArr != null || utcSeconds(jointsArr[0]?.timeUTC) != null);
+  const hasSec = secArr != null || num(jointsArr[0]?.time) != null;
+  timing.timeSource = hasUtc ? "utc" : hasSec ? "samples" : "index";
+
+  let lastT = -Infinity;
+  for (let i = 0; i < jointsArr.length; i++) {
+    const J = jointsArr[i];
+    const t = timing.timeSource === "index" ? i / (fileFps ?? DEFAULT_FPS) : timeAt(J, i);
+    if (t == null) { timing.untimed++; continue; }
+    if (t <= lastT + 1e-9) { timing.duplicates++; continue; }
+    lastT = t;
 
-  const frames = jointsArr.map((J: any, i: number) => {
     // Ensure values are triples
     const out: Record<string, V3> = {};
     if (J && typeof J === "object") {
       for (const [k, v] of Object.entries(J)) {
         if (Array.isArray(v) && v.length === 3 && v.every(Number.isFinite)) {
           out[k] = [v[0], v[1], v[2]];
+        } else if (Array.isArray(v)) {
+          droppedJoints[k] = (droppedJoints[k] ?? 0) + 1;
         }
       }
     }
-    return { time: i / fps, joints: out };
-  });
-  return frames;
+    frames.push({ time: t, joints: out });
+  }
+
+  const dts = frames.slice(1).map((f, i) => f.time - frames[i].time).sort((a, b) => a - b);
+  timing.medianDt = dts.length ? dts[Math.floor(dts.length / 2)] : 0;
+  if (timing.medianDt > 0) {
+    for (let i = 1; i < frames.length; i++) {
+      const dt = frames[i].time - frames[i - 1].time;
+      if (dt > GAP_FACTOR * timing.medianDt) timing.gaps.push({ frame: i, dt });
+    }
+  }
+
+  let fps = fileFps ?? DEFAULT_FPS;
+  if (fileFps == null && timing.timeSource !== "index" && timing.medianDt > 0) {
+    fps = 1 / timing.medianDt;
+    timing.fpsSource = "samples";
+  }
+  return { frames, timing, fps, droppedJoints };
+}
+
+function toV3(v: any): V3 | null {
+  if (Array.isArray(v) && v.length === 3 && v.every((n: any) => Number.isFinite(Number(n)))) {
+    return [Number(v[0]), Number(v[1]), Number(v[2])];
+  }
+  if (v && typeof v === "object" && [v.x, v.y, v.z].every((n: any) => Number.isFinite(Number(n)))) {
+    return [Number(v.x), Number(v.y), Number(v.z)];
+  }
+  return null;
+}
+
+function extractBall(root: any, clock: Clock): ParsedBall | undefined {
+  // Hawk-Eye form: samples.ball = Array<{ time, pos: [x,y,z] }>
+  // Older/flattened exports: ball = { times: number[], positions: V3[] }
+  const samples: BallSample[] = [];
+
+  const arr =
+    (Array.isArray(root?.samples?.ball) && root.samples.ball) ||
+    (Array.isArray(root?.ball?.samples) && root.ball.samples) ||
+    null;
+
+  if (arr) {
+    for (const s of arr) {
+      const time = sampleTime(s, clock);
+      const pos = toV3(s?.pos ?? s?.position ?? s);
+      if (time != null && pos) samples.push({ time, pos });
+    }
+  } else {
+    const ball = root?.ball || root?.details?.ball || null;
+    const times = Array.isArray(ball?.times) ? ball.times : null;
+    const positions = Array.isArray(ball?.positions) ? ball.positions : (Array.isArray(ball?.pos) ? ball.pos : null);
+    if (times && positions) {
+      for (let i = 0; i < Math.min(times.length, positions.length); i++) {
+        const time = num(times[i]);
+        const pos = toV3(positions[i]);
+        if (time != null && pos) samples.push({ time, pos });
+      }
+    }
+  }
+
+  if (!samples.length) return undefined;
+  samples.sort((a, b) => a.time - b.time);
+  return { samples };
+}
+
+function extractBat(root: any, clock: Clock): ParsedBat | undefined {
+  // Hawk-Eye form: samples.bat = Array<{ time, handle: { pos }, head: { pos } }>
+  const arr =
+    (Array.isArray(root?.samples?.bat) && root.samples.bat) ||
+    (Array.isArray(root?.bat?.samples) && root.bat.samples) ||
+    null;
+  if (!arr) return undefined;
+
+  const samples: BatSample[] = [];
+  for (const s of arr) {
+    const time = sampleTime(s, clock);
+    const handle = toV3(s?.handle?.pos ?? s?.handle);
+    const head = toV3(s?.head?.pos ?? s?.head);
+    if (time != null && handle && head) samples.push({ time, handle, head });
+  }
+
+  if (!samples.length) return undefined;
+  samples.sort((a, b) => a.time - b.time);
+  return { samples };
 }
 
 function extractNames(root: any) {
@@ -96,116 +307,46 @@ function extractNames(root: any) {
   return { pitcherName, batterName };
 }
 
-function extractPitchMetrics(root: any) {
-  // Pull velocity / movement / extension from a bunch of likely places
-  // Return nulls if absent — the visualizer will show "-" but stay stable
-  const n = (v: any) => (Number.isFinite(Number(v)) ? Number(v) : null);
-  const mph = (ms: number | null) => (ms == null ? null : ms * 2.23694);
-  const toInches = (m: number | null) => (m == null ? null : m * 39.3701);
-  const toFeet = (m: number | null) => (m == null ? null : m * 3.28084);
-
-  const objectsToSearch = [
-    root?.pitch, root?.details?.pitch, root?.ball, root?.samples?.ball?.[0],
-    root?.events?.pitch, root?.metrics, root?.details
-  ];
-
-  function findAny(keys: string[]) {
-    for (const o of objectsToSearch) {
-      if (!o) continue;
-      for (const k of keys) {
-        const v = o[k];
-        if (Number.isFinite(Number(v))) return Number(v);
-      }
-    }
-    return null;
-  }
-
-  const vMph = firstDefined<number | null>(
-    findAny(["velocityMph", "pitchVelocityMph", "veloMph", "speedMph"]),
-    (() => {
-      const ms = findAny(["velocityMs", "pitchVelocityMs", "speedMs"]);
-      return mph(ms);
-    })()
-  ) ?? null;
-
-  const ivbIn = firstDefined<number | null>(
-    findAny(["inducedVerticalBreakIn", "ivbInches", "ivb_in"]),
-    toInches(findAny(["inducedVerticalBreakM", "ivbMeters", "ivb_m"]))
-  ) ?? null;
-
-  const hbIn = firstDefined<number | null>(
-    findAny(["horizontalBreakIn", "hbInches", "hBreakIn"]),
-    toInches(findAny(["horizontalBreakM", "hbMeters", "hBreakM"]))
-  ) ?? null;
-
-  const extFt = firstDefined<number | null>(
-    findAny(["extensionFt", "releaseExtensionFt"]),
-    toFeet(findAny(["extensionM", "releaseExtensionM"]))
-  ) ?? null;
-
-  return {
-    velocityMph: vMph,
-    ivbInches: ivbIn,
-    hbInches: hbIn,
-    extensionFt: extFt
-  };
+function rawRoleText(raw: any): string {
+  return (raw?.name ?? raw ?? "").toString();
 }
 
-function extractHitMetrics(root: any) {
-  const toMph = (ms: number | null) => (ms == null ? null : ms * 2.23694);
-
-  const objectsToSearch = [
-    root?.battedBall, root?.contact, root?.events?.contact, root?.details?.contact, root?.metrics, root?.details
-  ];
-
-  function findAny(keys: string[]) {
-    for (const o of objectsToSearch) {
-      if (!o) continue;
-      for (const k of keys) {
-        const v = o[k];
-        if (Number.isFinite(Number(v))) return Number(v);
-      }
-    }
-    return null;
-  }
-
-  const evMph = (() => {
-    const mph = findAny(["exitVelocityMph", "evMph", "exitVeloMph"]);
-    if (mph != null) return mph;
-    const ms = findAny(["exitVelocityMs", "evMs"]);
-    return toMph(ms);
-  })();
-
-  const laDeg          = findAny(["launchAngleDeg", "laDeg", "launchAngle"]);
-  const batSpeedMph    = findAny(["batSpeedMph", "swingSpeedMph", "batVelocityMph"]);
-  const swingPathTilt  = findAny(["swingPathTiltDeg", "swingTiltDeg"]);
-  const attackDir      = findAny(["attackDirectionDeg", "attackDirDeg"]);
-  const attackAngle    = findAny(["attackAngleDeg", "attackAngle"]);
-
-  return {
-    evMph: evMph ?? null,
-    laDeg: laDeg ?? null,
-    batSpeedMph: batSpeedMph ?? null,
-    swingPathTiltDeg: swingPathTilt ?? null,
-    attackDirectionDeg: attackDir ?? null,
-    attackAngleDeg: attackAngle ?? null,
-  };
+function missingFields(prefix: string, bag: object): string[] {
+  return Object.entries(bag).filter(([, v]) => v == null).map(([k]) => `${prefix}.${k}`);
 }
 
-export function parseHawkEyeJson(root: any): ParsedTrack[] {
+/**
+ * Core track builder shared by every schema adapter (lib/adapters): `people` are person nodes in the
+ * Hawk-Eye shape — { role, personId, name, joints: Array<Record<string, V3>>, time[] / timeUTC[] }.
+ * Ball, bat, clip start and metric bags are still read from `root`.
+ */
+export function parsePeople(root: any, people: any[] | null): ParseResult {
   const out: ParsedTrack[] = [];
+  const report: ParseReport = {
+    people: [], unrecognizedRoles: [], missingMetrics: [], hasBall: false, hasBat: false, events: 0, notes: [],
+  };
 
-  // Preferred skeleton location (per your logs)
-  const people = Array.isArray(root?.samples?.people) ? root.samples.people : null;
+  if (!people) {
+    report.notes.push("No people array found");
+  } else if (!people.length) {
+    report.notes.push("People array is empty");
+  }
 
   if (people && people.length) {
     const pitchMetrics = extractPitchMetrics(root);
     const hitMetrics   = extractHitMetrics(root);
-
-    for (const person of people) {
-      const fps = extractFPS(root, person);
-      const frames = buildFramesFromPerson(person, fps);
-      if (!frames.length) continue;
+    const clock        = extractClipStart(root, people);
+    const ball         = extractBall(root, clock);
+    const bat          = extractBat(root, clock);
+    const events       = extractEvents(root, clock.startUTC);
+    report.hasBall = !!ball;
+    report.hasBat = !!bat;
+    report.events = events.length;
+    if (!clock.startUTC) report.notes.push("No clip start UTC; UTC events cannot be aligned to frames");
+
+    for (let pi = 0; pi < people.length; pi++) {
+      const person = people[pi];
+      const { frames, timing, fps, droppedJoints } = buildFramesFromPerson(person, extractFPS(root, person), clock);
 
       const role = normalizeRole(person?.role);
       const name =
@@ -214,21 +355,56 @@ export function parseHawkEyeJson(root: any): ParsedTrack[] {
         person?.displayName ||
         undefined;
 
+      const entry: PersonReport = {
+        index: pi,
+        personId: person?.personId,
+        name,
+        rawRole: rawRoleText(person?.role),
+        role,
+        frames: frames.length,
+        fps,
+        fpsSource: timing.fpsSource,
+        timeSource: timing.timeSource,
+        gaps: timing.gaps.length,
+        duplicates: timing.duplicates,
+        untimed: timing.untimed,
+        droppedJoints,
+      };
+      report.people.push(entry);
+      if (role !== "pitcher" && role !== "hitter" && !report.unrecognizedRoles.includes(entry.rawRole || "(none)")) {
+        report.unrecognizedRoles.push(entry.rawRole || "(none)");
+      }
+      if (!Array.isArray(person?.joints)) { entry.skipped = "no joints array"; continue; }
+      if (!frames.length) { entry.skipped = "no timed frames"; continue; }
+
       const track: ParsedTrack = {
         role,
         name,
         personId: person?.personId,
         fps,
         frames,
+        clipStartUTC: clock.startUTC,
+        timing,
       };
+      if (ball) track.ball = ball;
+      if (events.length) track.events = events;
 
       // Attach metric bags once per file (not per person) but available for UI
       if (role === "pitcher") track.pitchMetrics = pitchMetrics;
       if (role === "hitter")  track.hitMetrics   = hitMetrics;
+      if (role === "hitter" && bat) track.bat = bat;
 
       out.push(track);
     }
+
+    if (out.some((t) => t.role === "pitcher")) report.missingMetrics.push(...missingFields("pitch", pitchMetrics));
+    if (out.some((t) => t.role === "hitter"))  report.missingMetrics.push(...missingFields("hit", hitMetrics));
   }
 
-  return out;
+  return { tracks: out, report };
+}
+
+export function parseHawkEyeJson(root: any): ParseResult {
+  // Preferred skeleton location (per your logs)
+  return parsePeople(root, Array.isArray(root?.samples?.people) ? root.samples.people : null);
 }
@@ -0,0 +1,163 @@
+// src/lib/parsePipeline.ts
+// UI-side client for the parse worker: per-file progress, cancellation, and clean-up / filtering / biomech
+// series on demand.
+
+import type { ParseReport, ParsedTrack } from "./parseHawkEye";
+import type { BiomechOptions, BiomechSeries, Hand } from "./biomech";
+import type { PackedFrames } from "./trackPacking";
+import type { JointResolution } from "./jointProfiles";
+import type { FilterSettings } from "./filtering";
+import type { QualityReport } from "./dataQuality";
+
+/** A parsed track as it crosses from the worker: frames replaced by typed arrays. */
+export type WireTrack = Omit<ParsedTrack, "frames"> & {
+  packed: PackedFrames;
+  _autoHand: Hand;
+  _profileId: string;            // joint profile auto-selected from the track's joint names
+  [extra: string]: any;          // per-file annotations (_pitcherName, _batterName, …)
+};
+
+export type LoadStage = "reading" | "parsing" | "done" | "error";
+
+export interface LoadProgress {
+  file: string;
+  index: number;                 // position in the selected file list
+  total: number;
+  stage: LoadStage;
+  loaded: number;                // bytes read so far
+  size: number;                  // file size in bytes
+}
+
+export type PipelineRequest =
+  | { type: "load"; jobId: number; files: File[] }
+  | { type: "series"; reqId: number; packed: PackedFrames; joints: JointResolution; opts: BiomechOptions }
+  | { type: "clean"; reqId: number; packed: PackedFrames; joints: JointResolution }
+  | { type: "filter"; reqId: number; packed: PackedFrames; joints: JointResolution; settings: FilterSettings };
+
+export type PipelineResponse =
+  | { type: "progress"; jobId: number; progress: LoadProgress }
+  | { type: "file"; jobId: number; file: string; tracks: WireTrack[]; report: ParseReport }
+  | { type: "fileError"; jobId: number; file: string; message: string }
+  | { type: "done"; jobId: number }
+  | { type: "series"; reqId: number; series: BiomechSeries }
+  | { type: "cleaned"; reqId: number; packed: PackedFrames; report: QualityReport }
+  | { type: "filtered"; reqId: number; packed: PackedFrames }
+  | { type: "error"; reqId: number; message: string };
+
+export interface LoadHandlers {
+  onProgress: (p: LoadProgress) => void;
+  onFile: (file: string, tracks: WireTrack[], report: ParseReport) => void;
+  onFileError: (file: string, message: string) => void;
+}
+
+function spawnWorker() {
+  return new Worker(new URL("../workers/parse.worker.ts", import.meta.url), { type: "module" });
+}
+
+export function createParsePipeline() {
+  // Loads get their own worker so cancel() can terminate mid-JSON.parse without losing series requests
+  let loadWorker: Worker | null = null;
+  let settleLoad: ((completed: boolean) => void) | null = null;
+  let computeWorker: Worker | null = null;
+  const pending = new Map<number, { resolve: (msg: PipelineResponse) => void; reject: (err: Error) => void }>();
+  let seq = 0;
+
+  function cancel() {
+    loadWorker?.terminate();
+    loadWorker = null;
+    settleLoad?.(false);
+    settleLoad = null;
+  }
+
+  /** Resolves true when every file was processed, false if cancelled first. */
+  function load(files: File[], handlers: LoadHandlers): Promise<boolean> {
+    cancel();
+    const jobId = ++seq;
+    const worker = spawnWorker();
+    loadWorker = worker;
+    return new Promise<boolean>((resolve) => {
+      settleLoad = resolve;
+      worker.onmessage = (e: MessageEvent<PipelineResponse>) => {
+        const msg = e.data;
+        if (!("jobId" in msg) || msg.jobId !== jobId) return;
+        if (msg.type === "progress") handlers.onProgress(msg.progress);
+        else if (msg.type === "file") handlers.onFile(msg.file, msg.tracks, msg.report);
+        else if (msg.type === "fileError") handlers.onFileError(msg.file, msg.message);
+        else if (msg.type === "done") {
+          worker.terminate();
+          if (loadWorker === worker) loadWorker = null;
+          settleLoad = null;
+          resolve(true);
+        }
+      };
+      worker.onerror = (e) => {
+        handlers.onFileError("(worker)", e.message || "Parse worker failed");
+        cancel();
+      };
+      worker.postMessage({ type: "load", jobId, files } satisfies PipelineRequest);
+    });
+  }
+
+  // Every request still waiting fails with `err` (worker crash, dispose)
+  function rejectAll(err: Error) {
+    for (const p of pending.values()) p.reject(err);
+    pending.clear();
+  }
+
+  // Series, clean-up and filtering share one long-lived worker; replies are matched by reqId
+  function compute(req: PipelineRequest & { reqId: number }): Promise<PipelineResponse> {
+    if (!computeWorker) {
+      const worker = spawnWorker();
+      computeWorker = worker;
+      worker.onmessage = (e: MessageEvent<PipelineResponse>) => {
+        const msg = e.data;
+        if (!("reqId" in msg)) return;
+        const p = pending.get(msg.reqId);
+        pending.delete(msg.reqId);
+        if (msg.type === "error") p?.reject(new Error(msg.message));
+        else p?.resolve(msg);
+      };
+      // A crashed worker is replaced on the next request
+      worker.onerror = (e) => {
+        e.preventDefault();
+        worker.terminate();
+        if (computeWorker === worker) computeWorker = null;
+        rejectAll(new Error(e.message || "Compute worker failed"));
+      };
+    }
+    return new Promise((resolve, reject) => {
+      pending.set(req.reqId, { resolve, reject });
+      // packed is cloned, not transferred: the UI keeps its copy for the next request
+      computeWorker!.postMessage(req);
+    });
+  }
+
+  async function series(packed: PackedFrames, joints: JointResolution, opts: BiomechOptions): Promise<BiomechSeries> {
+    const msg = await compute({ type: "series", reqId: ++seq, packed, joints, opts });
+    return (msg as Extract<PipelineResponse, { type: "series" }>).series;
+  }
+
+  /** Spikes and off-length bones removed, short gaps filled, every touched sample flagged (lib/dataQuality). */
+  async function clean(packed: PackedFrames, joints: JointResolution): Promise<{ packed: PackedFrames; report: QualityReport }> {
+    const msg = await compute({ type: "clean", reqId: ++seq, packed, joints });
+    const { packed: out, report } = msg as Extract<PipelineResponse, { type: "cleaned" }>;
+    return { packed: out, report };
+  }
+
+  /** Zero-lag low-pass copy of a track's frames (lib/filtering). */
+  async function filter(packed: PackedFrames, joints: JointResolution, settings: FilterSettings): Promise<PackedFrames> {
+    const msg = await compute({ type: "filter", reqId: ++seq, packed, joints, settings });
+    return (msg as Extract<PipelineResponse, { type: "filtered" }>).packed;
+  }
+
+  function dispose() {
+    cancel();
+    computeWorker?.terminate();
+    computeWorker = null;
+    rejectAll(new Error("Pipeline disposed"));
+  }
+
+  return { load, cancel, series, clean, filter, dispose };
+}
+
+export type ParsePipeline = ReturnType<typeof createParsePipeline>;
@@ -0,0 +1,126 @@
+// src/lib/phases.ts
+// Pitching delivery split into phases between eight keyframes. Foot strike and release come from
+// the detectors (or the analyst's overrides); the rest are found relative to them on the same series.
+
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { movingAvg, shoulderAngles, unwrapSeries, type Hand } from "./biomech";
+import { frameTimes, jointSeries, leadSideOf, throwSideOf } from "./detectors";
+
+export type PhaseKey =
+  | "firstMovement" | "peakLegLift" | "handSeparation" | "footStrike"
+  | "maxER" | "release" | "maxIR" | "finish";
+
+export const PHASE_KEY_LABEL: Record<PhaseKey, string> = {
+  firstMovement: "First movement", peakLegLift: "Peak leg lift", handSeparation: "Hand separation",
+  footStrike: "Foot strike", maxER: "Max ER", release: "Release", maxIR: "Max IR", finish: "Finish",
+};
+
+export interface Phase {
+  id: string;
+  label: string;
+  color: string;
+  start: number;                 // frame index (inclusive)
+  end: number;                   // frame index of the next keyframe
+}
+
+/** Keyframes (frame indices) and the phases between them; swings use their own keys (lib/swing.ts). */
+export interface PhaseSegmentation<K extends string = PhaseKey> {
+  keys: Partial<Record<K, number>>;
+  phases: Phase[];
+}
+
+const PHASES: { id: string; label: string; color: string; from: PhaseKey; to: PhaseKey }[] = [
+  { id: "windup", label: "Wind-up", color: "#64748b", from: "firstMovement", to: "peakLegLift" },
+  { id: "earlyStride", label: "Early stride", color: "#0ea5e9", from: "peakLegLift", to: "handSeparation" },
+  { id: "lateStride", label: "Late stride", color: "#22c55e", from: "handSeparation", to: "footStrike" },
+  { id: "cocking", label: "Arm cocking", color: "#eab308", from: "footStrike", to: "maxER" },
+  { id: "acceleration", label: "Acceleration", color: "#f97316", from: "maxER", to: "release" },
+  { id: "deceleration", label: "Deceleration", color: "#ef4444", from: "release", to: "maxIR" },
+  { id: "followThrough", label: "Follow-through", color: "#a855f7", from: "maxIR", to: "finish" },
+];
+
+const FIRST_MOVE_SPEED = 0.25;   // m/s of the lead knee above its set-position baseline
+const HAND_SEP_M = 0.1;          // wrists this much farther apart than at the set position
+const MAX_IR_WINDOW_S = 0.15;    // max IR is looked for this long after release
+const FINISH_SPEED = 0.5;        // m/s pelvis speed that counts as settled
+
+const dist = (a: V3, b: V3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/** Smoothed 3D speed (m/s) of a point series; 0 at the first frame. */
+function speedOf(pts: V3[], T: number[]) {
+  return movingAvg(pts.map((p, i) => (i ? dist(p, pts[i - 1]) / Math.max(1e-6, T[i] - T[i - 1]) : 0)), 5);
+}
+
+function argBest(vals: number[], lo: number, hi: number, better: (a: number, b: number) => boolean) {
+  let best = -1;
+  for (let i = Math.max(0, lo); i <= Math.min(vals.length - 1, hi); i++) {
+    if (!Number.isFinite(vals[i])) continue;
+    if (best < 0 || better(vals[i], vals[best])) best = i;
+  }
+  return best < 0 ? undefined : best;
+}
+
+/** `up` is the clip's ground normal (fieldGeometry's groundNormalOf), for the leg-lift height. */
+export function segmentPitch(
+  frames: TrackFrame[], handHint: Hand, fps: number, anchors: { footStrike?: number; release?: number }, up: V3,
+): PhaseSegmentation {
+  const keys: PhaseSegmentation["keys"] = {};
+  const n = frames.length;
+  if (!n) return { keys, phases: [] };
+
+  const lead = leadSideOf(frames, handHint);
+  const arm = throwSideOf(frames, handHint);
+  const T = frameTimes(frames, fps);
+  const fs = anchors.footStrike;
+  const br = anchors.release;
+  if (fs != null) keys.footStrike = fs;
+  if (br != null) keys.release = br;
+
+  // First movement: lead knee leaves its set-position speed
+  const knee = jointSeries(frames, `${lead.toLowerCase()}Knee`);
+  const kneeSpeed = speedOf(knee, T);
+  const preFs = fs ?? n - 1;
+  const base = Math.min(...kneeSpeed.slice(1, Math.max(2, Math.floor(preFs * 0.25))));
+  for (let i = 1; i < preFs; i++) {
+    if (kneeSpeed[i] - base > FIRST_MOVE_SPEED) { keys.firstMovement = i; break; }
+  }
+
+  // Peak leg lift: highest lead knee before foot strike
+  keys.peakLegLift = argBest(knee.map((p) => p[0] * up[0] + p[1] * up[1] + p[2] * up[2]), keys.firstMovement ?? 0, preFs, (a, b) => a > b);
+
+  // Hand separation: wrists leave the set-position gap after they were closest
+  const rW = jointSeries(frames, "rWrist"), lW = jointSeries(frames, "lWrist");
+  const gap = rW.map((p, i) => dist(p, lW[i]));
+  const closest = argBest(gap, keys.firstMovement ?? 0, preFs, (a, b) => a < b);
+  if (closest != null) {
+    for (let i = Math.max(closest, keys.peakLegLift ?? 0); i <= preFs; i++) {
+      if (gap[i] > gap[closest] + HAND_SEP_M) { keys.handSeparation = i; break; }
+    }
+  }
+
+  // Throwing-shoulder external rotation (ISB angles): layback peaks before release, IR bottoms out after
+  const er = unwrapSeries(frames.map((f) => shoulderAngles(f.joints as Record<string, V3>, arm)?.externalRotation ?? NaN));
+  if (fs != null && br != null && br > fs) keys.maxER = argBest(er, fs, br, (a, b) => a > b);
+  if (br != null) {
+    const hi = br + Math.round(MAX_IR_WINDOW_S * fps);
+    keys.maxIR = argBest(er, br + 1, hi, (a, b) => a < b);
+  }
+
+  // Finish: pelvis (hip midpoint) has settled after max IR, else the clip end
+  const rH = jointSeries(frames, "rHip"), lH = jointSeries(frames, "lHip");
+  const pelvis = rH.map((p, i): V3 => [(p[0] + lH[i][0]) / 2, (p[1] + lH[i][1]) / 2, (p[2] + lH[i][2]) / 2]);
+  const pelvisSpeed = speedOf(pelvis, T);
+  const after = keys.maxIR ?? br;
+  if (after != null) {
+    keys.finish = n - 1;
+    for (let i = after + 1; i < n; i++) if (pelvisSpeed[i] < FINISH_SPEED) { keys.finish = i; break; }
+  }
+
+  const phases: Phase[] = [];
+  for (const p of PHASES) {
+    const start = keys[p.from], end = keys[p.to];
+    if (start == null || end == null || end <= start) continue;
+    phases.push({ id: p.id, label: p.label, color: p.color, start, end });
+  }
+  return { keys, phases };
+}
@@ -0,0 +1,142 @@
+// src/lib/segmentCalibration.ts
+// Per-track segment lengths: one stable length per segment (median over the clip), how far each frame
+// strays from it, athlete height from the lengths (Drillis & Contini proportions), and an optional
+// rigid-length pass that slides each distal joint — and everything below it — back onto its length.
+
+import { jointIndexOf, type PackedFrames } from "./trackPacking";
+import type { JointResolution } from "./jointProfiles";
+import { JOINT_PARENT } from "./skeletonTopology";
+
+export interface SegmentSpec {
+  id: string;
+  label: string;
+  proximal: string[];            // canonical joints, midpoint when there are two
+  distal: string[];
+  heightRatio: number;           // segment length / standing height
+  rigid: boolean;                // kept at its length by constrainSegments (limb segments only)
+  color: string;
+}
+
+const limbs = (s: "l" | "r", side: string): SegmentSpec[] => [
+  { id: `${s}UpperArm`, label: `${side} upper arm`, proximal: [`${s}Shoulder`], distal: [`${s}Elbow`], heightRatio: 0.186, rigid: true, color: s === "l" ? "#60a5fa" : "#f472b6" },
+  { id: `${s}Forearm`, label: `${side} forearm`, proximal: [`${s}Elbow`], distal: [`${s}Wrist`], heightRatio: 0.146, rigid: true, color: s === "l" ? "#38bdf8" : "#fb7185" },
+  { id: `${s}Thigh`, label: `${side} thigh`, proximal: [`${s}Hip`], distal: [`${s}Knee`], heightRatio: 0.245, rigid: true, color: s === "l" ? "#4ade80" : "#facc15" },
+  { id: `${s}Shank`, label: `${side} shank`, proximal: [`${s}Knee`], distal: [`${s}Ankle`], heightRatio: 0.246, rigid: true, color: s === "l" ? "#34d399" : "#fb923c" },
+];
+
+// Listed proximal → distal, the order constrainSegments walks each chain in
+export const CALIBRATED_SEGMENTS: SegmentSpec[] = [
+  // Hip-centre to shoulder-centre: shoulder height 0.818 H less hip height 0.530 H
+  { id: "trunk", label: "Trunk", proximal: ["lHip", "rHip"], distal: ["lShoulder", "rShoulder"], heightRatio: 0.288, rigid: false, color: "#a78bfa" },
+  ...limbs("l", "L"),
+  ...limbs("r", "R"),
+];
+
+export interface SegmentLength {
+  spec: SegmentSpec;
+  length: number;                // m, median over the frames that have both ends
+  frames: number;                // frames measured
+  deviation: number[];           // [frame] length − calibrated length (m), NaN where unmeasured
+  rms: number;                   // m
+  maxAbs: number;                // m
+  outlierPct: number;            // % of measured frames off by more than OUTLIER_FRAC of the length
+}
+
+export interface SegmentCalibration {
+  segments: SegmentLength[];
+  height?: number;               // m, median of the per-segment height estimates
+}
+
+export const OUTLIER_FRAC = 0.1;
+const MIN_FRAMES = 5;
+
+type Ends = { a: number[]; b: number[] };
+
+function endsOf(p: PackedFrames, joints: JointResolution, spec: SegmentSpec): Ends | undefined {
+  const a = spec.proximal.map((n) => jointIndexOf(p.jointNames, joints, n));
+  const b = spec.distal.map((n) => jointIndexOf(p.jointNames, joints, n));
+  return a.every((j) => j >= 0) && b.every((j) => j >= 0) ? { a, b } : undefined;
+}
+
+// Mean position of some joints at frame i, undefined if any is missing
+function meanAt(p: PackedFrames, idx: number[], i: number): [number, number, number] | undefined {
+  const J = p.jointNames.length;
+  const out: [number, number, number] = [0, 0, 0];
+  for (const j of idx) {
+    const o = (i * J + j) * 3;
+    if (Number.isNaN(p.positions[o])) return undefined;
+    for (let k = 0; k < 3; k++) out[k] += p.positions[o + k] / idx.length;
+  }
+  return out;
+}
+
+export function calibrateSegments(p: PackedFrames, joints: JointResolution = {}): SegmentCalibration {
+  const n = p.times.length;
+  const segments: SegmentLength[] = [];
+  for (const spec of CALIBRATED_SEGMENTS) {
+    const ends = endsOf(p, joints, spec);
+    if (!ends) continue;
+    const lens = new Array<number>(n).fill(NaN);
+    for (let i = 0; i < n; i++) {
+      const a = meanAt(p, ends.a, i), b = meanAt(p, ends.b, i);
+      if (a && b) lens[i] = Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+    }
+    const valid = lens.filter(Number.isFinite).sort((x, y) => x - y);
+    if (valid.length < MIN_FRAMES) continue;
+    const length = valid[valid.length >> 1];
+    const deviation = lens.map((l) => l - length);
+    let sq = 0, maxAbs = 0, off = 0;
+    for (const d of deviation) {
+      if (!Number.isFinite(d)) continue;
+      sq += d * d;
+      maxAbs = Math.max(maxAbs, Math.abs(d));
+      if (Math.abs(d) > OUTLIER_FRAC * length) off++;
+    }
+    segments.push({
+      spec, length, frames: valid.length, deviation,
+      rms: Math.sqrt(sq / valid.length), maxAbs, outlierPct: (off / valid.length) * 100,
+    });
+  }
+  const heights = segments.map((s) => s.length / s.spec.heightRatio).sort((x, y) => x - y);
+  return { segments, height: heights.length ? heights[heights.length >> 1] : undefined };
+}
+
+// Vendor indices of a canonical joint and every joint hanging below it in the skeleton tree
+function subtree(p: PackedFrames, joints: JointResolution, root: string): number[] {
+  const names = [root];
+  for (let k = 0; k < names.length; k++) {
+    for (const [child, parent] of Object.entries(JOINT_PARENT)) if (parent === names[k]) names.push(child);
+  }
+  const idx = names.map((n) => jointIndexOf(p.jointNames, joints, n)).filter((j) => j >= 0);
+  return [...new Set(idx)];
+}
+
+/**
+ * A copy of the frames with every rigid segment held at its calibrated length: per frame the distal
+ * joint moves along the segment, and its subtree (wrist → hand → fingers, ankle → foot) moves with it.
+ */
+export function constrainSegments(p: PackedFrames, cal: SegmentCalibration, joints: JointResolution = {}): PackedFrames {
+  const J = p.jointNames.length, n = p.times.length;
+  const positions = new Float32Array(p.positions);
+  const out: PackedFrames = { jointNames: p.jointNames.slice(), times: new Float64Array(p.times), positions };
+  for (const seg of cal.segments) {
+    if (!seg.spec.rigid) continue;
+    const ends = endsOf(out, joints, seg.spec);
+    if (!ends) continue;
+    const moved = subtree(out, joints, seg.spec.distal[0]).filter((j) => !ends.a.includes(j));
+    for (let i = 0; i < n; i++) {
+      const a = meanAt(out, ends.a, i), b = meanAt(out, ends.b, i);
+      if (!a || !b) continue;
+      const d = Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+      if (d < 1e-6) continue;
+      const s = seg.length / d - 1;
+      const delta = [(b[0] - a[0]) * s, (b[1] - a[1]) * s, (b[2] - a[2]) * s];
+      for (const j of moved) {
+        const o = (i * J + j) * 3;
+        if (Number.isNaN(positions[o])) continue;
+        for (let k = 0; k < 3; k++) positions[o + k] += delta[k];
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,101 @@
+// src/lib/skeletonTopology.ts
+// Bone graph over canonical joint names for full-resolution rendering. Bones come from a parent
+// tree: a joint whose parent is missing attaches to the nearest present ancestor instead.
+
+import type { V3 } from "./parseHawkEye";
+import { CORE_JOINTS, type CanonicalJoint } from "./jointProfiles";
+
+export type BonePart = "body" | "face" | "hand" | "foot";
+
+const side = (s: "l" | "r") => {
+  const p = (n: string) => `${s}${n}` as CanonicalJoint;
+  const tree: Partial<Record<CanonicalJoint, CanonicalJoint>> = {
+    [p("Eye")]: "head", [p("Ear")]: "head",
+    [p("Shoulder")]: "chest", [p("Elbow")]: p("Shoulder"), [p("Wrist")]: p("Elbow"), [p("Hand")]: p("Wrist"),
+    [p("Hip")]: "pelvis", [p("Knee")]: p("Hip"), [p("Ankle")]: p("Knee"),
+    [p("Heel")]: p("Ankle"), [p("BigToe")]: p("Ankle"), [p("SmallToe")]: p("Ankle"),
+  };
+  for (const f of ["Thumb", "Index", "Middle", "Ring", "Pinky"]) {
+    tree[p(`${f}Base`)] = p("Wrist");
+    tree[p(`${f}Tip`)] = p(`${f}Base`);
+  }
+  return tree;
+};
+
+/** Parent of each canonical joint; the pelvis is the root. */
+export const JOINT_PARENT: Partial<Record<CanonicalJoint, CanonicalJoint>> = {
+  spineLower: "pelvis", spineMid: "spineLower", spineUpper: "spineMid", chest: "spineUpper",
+  neck: "chest", head: "neck", nose: "head",
+  ...side("l"),
+  ...side("r"),
+};
+
+/** Non-tree links that close the outline of feet and palms. */
+export const EXTRA_LINKS: [CanonicalJoint, CanonicalJoint][] = (["l", "r"] as const).flatMap((s) => [
+  [`${s}Heel`, `${s}BigToe`], [`${s}BigToe`, `${s}SmallToe`], [`${s}Heel`, `${s}SmallToe`],
+  [`${s}IndexBase`, `${s}MiddleBase`], [`${s}MiddleBase`, `${s}RingBase`], [`${s}RingBase`, `${s}PinkyBase`],
+] as [CanonicalJoint, CanonicalJoint][]);
+
+export function bonePart(name: string): BonePart {
+  if (/Eye|Ear|nose/.test(name)) return "face";
+  if (/Hand|Thumb|Index|Middle|Ring|Pinky/.test(name)) return "hand";
+  if (/Heel|Toe/.test(name)) return "foot";
+  return "body";
+}
+
+const mid = (a: V3, b: V3): V3 => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+
+/** Pelvis joint, else the hip midpoint. */
+export function pelvisCenter(J: Record<string, V3>): V3 | undefined {
+  return J.pelvis ?? (J.lHip && J.rHip ? mid(J.lHip, J.rHip) : undefined);
+}
+
+/** Chest / pelvis from the shoulder / hip midpoints when the file has no centre joint. */
+export function withBodyCenters(J: Record<string, V3>): Record<string, V3> {
+  if ((J.chest || !J.lShoulder || !J.rShoulder) && (J.pelvis || !J.lHip || !J.rHip)) return J;
+  const out = { ...J };
+  if (!out.chest && J.lShoulder && J.rShoulder) out.chest = mid(J.lShoulder, J.rShoulder);
+  if (!out.pelvis && J.lHip && J.rHip) out.pelvis = mid(J.lHip, J.rHip);
+  return out;
+}
+
+export interface SkeletonPoint { name: string; p: V3; kind: "core" | "detail" | "extra" }
+export interface SkeletonBone { a: V3; b: V3; part: BonePart }
+
+const CORE = new Set<string>(CORE_JOINTS);
+
+/**
+ * Every distinct joint position in the frame plus the bones between them. Canonical joints that
+ * share a vendor point (an ankle resolved from the heel) are drawn once, with no zero-length bone.
+ */
+export function buildSkeleton(joints: Record<string, V3>): { points: SkeletonPoint[]; bones: SkeletonBone[] } {
+  const J = withBodyCenters(joints);
+  const seen = new Set<string>();
+  const points: SkeletonPoint[] = [];
+  for (const [name, p] of Object.entries(J)) {
+    const key = p.join();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const kind = CORE.has(name) ? "core" : name in JOINT_PARENT ? "detail" : "extra";
+    points.push({ name, p, kind });
+  }
+
+  const bones: SkeletonBone[] = [];
+  const linked = new Set<string>();
+  const link = (a: V3, b: V3, part: BonePart) => {
+    const key = `${a.join()}|${b.join()}`;
+    if (a.join() === b.join()) return;
+    if (linked.has(key)) return;
+    linked.add(key);
+    bones.push({ a, b, part });
+  };
+  for (const [child, parent] of Object.entries(JOINT_PARENT) as [CanonicalJoint, CanonicalJoint][]) {
+    const c = J[child];
+    if (!c) continue;
+    let p: CanonicalJoint | undefined = parent;
+    while (p && !J[p]) p = JOINT_PARENT[p];
+    if (p) link(J[p], c, bonePart(child));
+  }
+  for (const [a, b] of EXTRA_LINKS) if (J[a] && J[b]) link(J[a], J[b], bonePart(a));
+  return { points, bones };
+}
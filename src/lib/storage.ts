@@ -0,0 +1,15 @@
+// src/lib/storage.ts
+// JSON in localStorage for analyst settings; silently a no-op where storage is unavailable.
+
+export function readJson<T>(key: string, fallback: T): T {
+  try {
+    const s = typeof localStorage !== "undefined" ? localStorage.getItem(key) : null;
+    return s ? (JSON.parse(s) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeJson(key: string, value: unknown) {
+  try { localStorage.setItem(key, JSON.stringify(value)); } catch {}
+}
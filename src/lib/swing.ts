@@ -0,0 +1,127 @@
+// src/lib/swing.ts
+// Hitter swing split into phases between keyframes: load, stride, heel plant, swing launch, contact.
+// Contact comes from the event timeline when the file has one; the rest is found on the hands and lead foot.
+
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { HOME_BASE, movingAvg } from "./biomech";
+import { frameTimes, jointSeries, type Side } from "./detectors";
+import type { Phase, PhaseSegmentation } from "./phases";
+
+export type SwingKey = "loadStart" | "strideStart" | "heelPlant" | "launch" | "contact" | "finish";
+
+export const SWING_KEY_LABEL: Record<SwingKey, string> = {
+  loadStart: "Load", strideStart: "Stride", heelPlant: "Heel plant", launch: "Swing launch",
+  contact: "Contact", finish: "Finish",
+};
+
+const SWING_PHASES: { id: string; label: string; color: string; from: SwingKey; to: SwingKey }[] = [
+  { id: "load", label: "Load", color: "#64748b", from: "loadStart", to: "strideStart" },
+  { id: "stride", label: "Stride", color: "#0ea5e9", from: "strideStart", to: "heelPlant" },
+  { id: "brace", label: "Brace", color: "#22c55e", from: "heelPlant", to: "launch" },
+  { id: "swing", label: "Swing", color: "#f97316", from: "launch", to: "contact" },
+  { id: "followThrough", label: "Follow-through", color: "#a855f7", from: "contact", to: "finish" },
+];
+
+const LOAD_M = 0.03;             // hands this far back toward the catcher from the stance
+const STRIDE_M = 0.03;           // lead foot this far from its stance position
+const PLANT_HEIGHT_M = 0.02;     // lead heel back within this of its stance height …
+const PLANT_SPEED = 0.3;         // … and slower than this (m/s)
+const LAUNCH_FRAC = 0.25;        // hand speed above this share of its pre-contact peak
+const FOLLOW_S = 0.3;            // finish this long after contact (or the clip end)
+const STANCE_FRAC = 0.1;         // opening share of the clip taken as the stance
+
+const dist = (a: V3, b: V3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+const mid = (a: V3, b: V3): V3 => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+
+/** Hitter's lead (front) side: the ankle nearer the pitcher (+X from home) over the clip. */
+export function hitterLeadSide(frames: TrackFrame[]): Side {
+  let r = 0, l = 0;
+  for (const f of frames) {
+    const rA = f.joints["rAnkle"] as V3 | undefined, lA = f.joints["lAnkle"] as V3 | undefined;
+    if (rA && lA) { r += rA[0]; l += lA[0]; }
+  }
+  return -HOME_BASE.x * (r - l) > 0 ? "R" : "L";
+}
+
+/** Wrist midpoint over the clip and its speed (m/s). */
+export function handPath(frames: TrackFrame[], fps: number): { points: V3[]; speed: number[] } {
+  const T = frameTimes(frames, fps);
+  const rW = jointSeries(frames, "rWrist"), lW = jointSeries(frames, "lWrist");
+  const points = rW.map((p, i) => mid(p, lW[i]));
+  const speed = movingAvg(points.map((p, i) => (i ? dist(p, points[i - 1]) / Math.max(1e-6, T[i] - T[i - 1]) : 0)), 5);
+  if (speed.length > 1) speed[0] = speed[1];
+  return { points, speed };
+}
+
+/** `up` is the clip's ground normal (fieldGeometry's groundNormalOf), for the heel height. */
+export function segmentSwing(
+  frames: TrackFrame[], fps: number, anchors: { contact?: number; batSpeed?: number[] }, up: V3,
+): PhaseSegmentation<SwingKey> {
+  const keys: PhaseSegmentation<SwingKey>["keys"] = {};
+  const n = frames.length;
+  if (!n) return { keys, phases: [] };
+
+  const lead = hitterLeadSide(frames).toLowerCase();
+  const T = frameTimes(frames, fps);
+  const { points: hands, speed: handSpeed } = handPath(frames, fps);
+  const stance = Math.max(1, Math.floor(n * STANCE_FRAC));
+
+  // Contact: timeline event, else peak bat-head speed, else peak hand speed
+  const argMax = (v: number[], lo = 0, hi = v.length - 1) => {
+    let best = -1;
+    for (let i = Math.max(0, lo); i <= Math.min(v.length - 1, hi); i++) {
+      if (Number.isFinite(v[i]) && (best < 0 || v[i] > v[best])) best = i;
+    }
+    return best < 0 ? undefined : best;
+  };
+  const contact = anchors.contact ?? (anchors.batSpeed && argMax(anchors.batSpeed)) ?? argMax(handSpeed);
+  if (contact == null) return { keys, phases: [] };
+  keys.contact = contact;
+
+  // Swing launch: hands pick up past a share of their peak speed leading into contact
+  const peak = handSpeed[argMax(handSpeed, contact - Math.round(0.1 * fps), contact) ?? contact];
+  for (let i = contact; i > 0; i--) {
+    if (handSpeed[i - 1] < LAUNCH_FRAC * peak) { keys.launch = i; break; }
+  }
+
+  // Stride / heel plant on the lead heel (ankle when the file has no heel)
+  const foot = jointSeries(frames, frames.some((f) => f.joints[`${lead}Heel`]) ? `${lead}Heel` : `${lead}Ankle`);
+  const foot0 = foot[0];
+  const height = (p: V3) => p[0] * up[0] + p[1] * up[1] + p[2] * up[2];
+  const footH0 = Math.min(...foot.slice(0, stance).map(height));
+  const preLaunch = keys.launch ?? contact;
+  for (let i = 1; i < preLaunch; i++) {
+    if (dist(foot[i], foot0) > STRIDE_M) { keys.strideStart = i; break; }
+  }
+  if (keys.strideStart != null) {
+    for (let i = keys.strideStart + 1; i <= contact; i++) {
+      const v = dist(foot[i], foot[i - 1]) / Math.max(1e-6, T[i] - T[i - 1]);
+      if (height(foot[i]) - footH0 < PLANT_HEIGHT_M && v < PLANT_SPEED && dist(foot[i], foot0) > STRIDE_M) {
+        keys.heelPlant = i; break;
+      }
+    }
+  }
+
+  // Load: hands drift back toward the catcher from the stance
+  const back = (p: V3) => p[0] * HOME_BASE.x + p[1] * HOME_BASE.y + p[2] * HOME_BASE.z;
+  const back0 = back(hands[0]);
+  for (let i = 1; i < preLaunch; i++) {
+    if (back(hands[i]) - back0 > LOAD_M) { keys.loadStart = i; break; }
+  }
+
+  keys.finish = Math.min(n - 1, indexAfter(T, contact, FOLLOW_S));
+
+  const phases: Phase[] = [];
+  for (const p of SWING_PHASES) {
+    const start = keys[p.from], end = keys[p.to];
+    if (start == null || end == null || end <= start) continue;
+    phases.push({ id: p.id, label: p.label, color: p.color, start, end });
+  }
+  return { keys, phases };
+}
+
+function indexAfter(T: number[], from: number, seconds: number) {
+  let i = from;
+  while (i < T.length - 1 && T[i] - T[from] < seconds) i++;
+  return i;
+}
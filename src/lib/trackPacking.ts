@@ -0,0 +1,70 @@
+// src/lib/trackPacking.ts
+// Frames ⇄ flat typed arrays, so joint data crosses the worker boundary as transferables
+// instead of one Record<string, V3> object per frame.
+
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { canonicalizeJoints, type JointResolution } from "./jointProfiles";
+
+export interface PackedFrames {
+  jointNames: string[];
+  times: Float64Array;           // [frame]
+  positions: Float32Array;       // [frame][joint][xyz], NaN where the joint is absent
+}
+
+export function packFrames(frames: TrackFrame[]): PackedFrames {
+  const index = new Map<string, number>();
+  for (const f of frames) for (const k of Object.keys(f.joints)) if (!index.has(k)) index.set(k, index.size);
+
+  const J = index.size;
+  const times = new Float64Array(frames.length);
+  const positions = new Float32Array(frames.length * J * 3).fill(NaN);
+  frames.forEach((f, i) => {
+    times[i] = f.time;
+    for (const [k, p] of Object.entries(f.joints)) {
+      const o = (i * J + index.get(k)!) * 3;
+      positions[o] = p[0]; positions[o + 1] = p[1]; positions[o + 2] = p[2];
+    }
+  });
+  return { jointNames: [...index.keys()], times, positions };
+}
+
+export function packedTransferables(p: PackedFrames): ArrayBuffer[] {
+  return [p.times.buffer as ArrayBuffer, p.positions.buffer as ArrayBuffer];
+}
+
+/**
+ * Frames whose joint maps are decoded from the typed arrays on first access, then cached.
+ * With a joint resolution the maps are keyed by canonical joint names.
+ */
+export function unpackFrames(p: PackedFrames, joints?: JointResolution): TrackFrame[] {
+  const J = p.jointNames.length;
+  const out: TrackFrame[] = new Array(p.times.length);
+  for (let i = 0; i < p.times.length; i++) {
+    let cache: Record<string, V3> | undefined;
+    out[i] = {
+      time: p.times[i],
+      get joints() {
+        if (cache) return cache;
+        cache = {};
+        for (let j = 0; j < J; j++) {
+          const o = (i * J + j) * 3;
+          const x = p.positions[o];
+          if (Number.isNaN(x)) continue;
+          cache[p.jointNames[j]] = [x, p.positions[o + 1], p.positions[o + 2]];
+        }
+        if (joints) cache = canonicalizeJoints(cache, joints);
+        return cache;
+      },
+    } as TrackFrame;
+  }
+  return out;
+}
+
+/** Packed index of a canonical joint: its first resolved vendor name present, else the name itself. */
+export function jointIndexOf(jointNames: string[], joints: JointResolution, name: string): number {
+  for (const v of (joints as Record<string, string[] | undefined>)[name] ?? [name]) {
+    const j = jointNames.indexOf(v);
+    if (j >= 0) return j;
+  }
+  return -1;
+}
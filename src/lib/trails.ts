@@ -0,0 +1,72 @@
+// src/lib/trails.ts
+// 3D paths of a few key joints over a window of frames, with the joint's speed at each point so the
+// scene can colour the path slow → fast.
+
+import type { TrackFrame, V3 } from "./parseHawkEye";
+import { linearVelocity, type Hand } from "./biomech";
+import { leadSideOf } from "./detectors";
+import { pelvisCenter } from "./skeletonTopology";
+
+export type TrailJoint = "throwWrist" | "throwElbow" | "gloveWrist" | "leadAnkle" | "driveAnkle" | "pelvis" | "head";
+
+// Throwing / lead sides follow the hand; hitters use the same names with the top hand as "throwing"
+export const TRAIL_JOINTS: { id: TrailJoint; label: string }[] = [
+  { id: "throwWrist", label: "Throwing wrist" },
+  { id: "throwElbow", label: "Throwing elbow" },
+  { id: "gloveWrist", label: "Glove wrist" },
+  { id: "leadAnkle", label: "Lead ankle" },
+  { id: "driveAnkle", label: "Drive ankle" },
+  { id: "pelvis", label: "Pelvis centre" },
+  { id: "head", label: "Head" },
+];
+
+export interface Trail {
+  id: TrailJoint;
+  points: (V3 | undefined)[];    // [frame], undefined where the joint is missing
+  speed: number[];               // [frame] m/s
+  maxSpeed: number;              // over the frames with a point
+}
+
+/** Canonical joint behind a trail choice for this frame, with the pelvis from the hips if needed. */
+export function trailPoint(J: Record<string, V3>, id: TrailJoint, throwSide: "l" | "r", leadSide: "l" | "r"): V3 | undefined {
+  const other = (s: "l" | "r") => (s === "l" ? "r" : "l");
+  switch (id) {
+    case "throwWrist": return J[`${throwSide}Wrist`];
+    case "throwElbow": return J[`${throwSide}Elbow`];
+    case "gloveWrist": return J[`${other(throwSide)}Wrist`];
+    case "leadAnkle": return J[`${leadSide}Ankle`];
+    case "driveAnkle": return J[`${other(leadSide)}Ankle`];
+    case "head": return J.head;
+    case "pelvis": return pelvisCenter(J);
+  }
+}
+
+export function buildTrails(frames: TrackFrame[], ids: TrailJoint[], hand: Hand): Trail[] {
+  if (!frames.length) return [];
+  const throwSide = hand === "L" ? "l" : "r";
+  const leadSide = leadSideOf(frames, hand) === "L" ? "l" : "r";
+  const times = frames.map((f) => f.time);
+  return ids.map((id) => {
+    const points = frames.map((f) => trailPoint(f.joints, id, throwSide, leadSide));
+    const v = [0, 1, 2].map((k) => linearVelocity(points.map((p) => (p ? p[k] : NaN)), times));
+    const speed = points.map((_, i) => Math.hypot(v[0][i], v[1][i], v[2][i]));
+    const maxSpeed = Math.max(0, ...speed.filter(Number.isFinite));
+    return { id, points, speed, maxSpeed };
+  });
+}
+
+// Slow → fast: blue, cyan, green, yellow, red
+const RAMP: [number, number, number][] = [
+  [0.23, 0.51, 0.96], [0.13, 0.83, 0.93], [0.2, 0.83, 0.6], [0.98, 0.8, 0.08], [0.94, 0.27, 0.27],
+];
+
+/** Ramp colour (0–1 RGB) for a speed as a share of the trail's top speed. */
+export function speedColor(frac: number): [number, number, number] {
+  const t = Math.min(1, Math.max(0, Number.isFinite(frac) ? frac : 0)) * (RAMP.length - 1);
+  const k = Math.min(RAMP.length - 2, Math.floor(t)), f = t - k;
+  const a = RAMP[k], b = RAMP[k + 1];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+}
+
+/** CSS gradient matching speedColor, for legends. */
+export const SPEED_GRADIENT_CSS = `linear-gradient(90deg, ${RAMP.map((c) => `rgb(${c.map((v) => Math.round(v * 255)).join(",")})`).join(", ")})`;
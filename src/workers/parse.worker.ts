@@ -0,0 +1,134 @@
+// src/workers/parse.worker.ts
+// Reads, parses and pre-computes Hawk-Eye files off the UI thread (see lib/parsePipeline.ts).
+
+import type { ParsedTrack } from "../lib/parseHawkEye";
+import { parseTrackingJson } from "../lib/adapters";
+import { computeBiomechSeries, detectHandedness } from "../lib/biomech";
+import { packFrames, packedTransferables, unpackFrames } from "../lib/trackPacking";
+import { autoSelectProfile, resolveProfile } from "../lib/jointProfiles";
+import { firstEventTime } from "../lib/events";
+import { filterPacked } from "../lib/filtering";
+import { cleanPacked } from "../lib/dataQuality";
+import type { LoadProgress, PipelineRequest, PipelineResponse, WireTrack } from "../lib/parsePipeline";
+
+const ctx = self as unknown as Worker;
+const PROGRESS_INTERVAL_MS = 50;
+
+function post(msg: PipelineResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(msg, transfer);
+}
+
+async function readText(file: File, onBytes: (loaded: number) => void): Promise<string> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+    onBytes(loaded);
+  }
+  return text + decoder.decode();
+}
+
+// Per-file metadata the UI shows alongside each track (names, pitch id)
+function annotateTracks(obj: any, parsed: ParsedTrack[]) {
+  // ===== Pitcher/Hitter names (optional – doesn’t break if absent) =====
+  let pitcherName: string | undefined;
+  let batterName: string | undefined;
+  const players =
+    (Array.isArray(obj?.players) && obj.players) ||
+    (Array.isArray(obj?.details?.players) && obj.details.players) ||
+    null;
+  if (players) {
+    const pit =
+      players.find((p: any) => (p?.role?.name || "").toLowerCase() === "pitcher") ||
+      players.find((p: any) => ["p"].includes((p?.role?.abbr || "").toLowerCase()));
+    const bat =
+      players.find((p: any) => (p?.role?.name || "").toLowerCase() === "batter") ||
+      players.find((p: any) => ["hitter", "b"].includes((p?.role?.name || "").toLowerCase()));
+
+    pitcherName = pit?.name || pit?.fullName || pit?.displayName;
+    batterName  = bat?.name || bat?.fullName || bat?.displayName;
+  }
+
+  // Identifies the pitch within the file for saved FS/BR overrides
+  const events = Array.isArray(obj?.events) ? obj.events : Array.isArray(obj?.details?.events) ? obj.details.events : [];
+  const pitchEvt = events.find((e: any) => String(e?.type || "").toUpperCase() === "PITCH");
+  const pitchId = obj?.playId ?? obj?.pitchId ?? obj?.details?.playId ?? obj?.meta?.playId ?? pitchEvt?.id ?? pitchEvt?.guid;
+
+  return parsed.map((t) => ({
+    ...t,
+    _handFromJson: "?",
+    _releaseSeconds: firstEventTime(t.events, "release"),
+    _pitcherName: pitcherName,
+    _batterName: batterName,
+    _pitchId: pitchId != null ? String(pitchId) : undefined,
+  }));
+}
+
+async function load(jobId: number, files: File[]) {
+  for (let index = 0; index < files.length; index++) {
+    const f = files[index];
+    const progress: LoadProgress = { file: f.name, index, total: files.length, stage: "reading", loaded: 0, size: f.size };
+    let last = 0;
+    post({ type: "progress", jobId, progress: { ...progress } });
+
+    try {
+      const text = await readText(f, (loaded) => {
+        const now = performance.now();
+        if (now - last < PROGRESS_INTERVAL_MS) return;
+        last = now;
+        post({ type: "progress", jobId, progress: { ...progress, loaded } });
+      });
+      post({ type: "progress", jobId, progress: { ...progress, stage: "parsing", loaded: f.size } });
+
+      const obj = JSON.parse(text);
+      const { tracks: parsed, report } = parseTrackingJson(obj);
+
+      const transfer: Transferable[] = [];
+      const tracks: WireTrack[] = annotateTracks(obj, parsed).map(({ frames, ...rest }) => {
+        const packed = packFrames(frames);
+        const profile = autoSelectProfile(packed.jointNames);
+        const hand = detectHandedness(unpackFrames(packed, resolveProfile(profile, packed.jointNames)));
+        transfer.push(...packedTransferables(packed));
+        return { ...rest, packed, _autoHand: hand, _profileId: profile.id };
+      });
+      post({ type: "file", jobId, file: f.name, tracks, report }, transfer);
+      post({ type: "progress", jobId, progress: { ...progress, stage: "done", loaded: f.size } });
+    } catch (e: any) {
+      post({ type: "fileError", jobId, file: f.name, message: String(e?.message || e) });
+      post({ type: "progress", jobId, progress: { ...progress, stage: "error" } });
+    }
+  }
+  post({ type: "done", jobId });
+}
+
+ctx.onmessage = (e: MessageEvent<PipelineRequest>) => {
+  const msg = e.data;
+  if (msg.type === "load") {
+    void load(msg.jobId, msg.files);
+  } else {
+    // A malformed track must reject its request, not leave the UI waiting on a reply that never comes
+    try {
+      compute(msg);
+    } catch (err: any) {
+      post({ type: "error", reqId: msg.reqId, message: String(err?.message || err) });
+    }
+  }
+};
+
+function compute(msg: Exclude<PipelineRequest, { type: "load" }>) {
+  if (msg.type === "series") {
+    const series = computeBiomechSeries(unpackFrames(msg.packed, msg.joints), msg.opts);
+    post({ type: "series", reqId: msg.reqId, series });
+  } else if (msg.type === "clean") {
+    const { packed, report } = cleanPacked(msg.packed, msg.joints);
+    post({ type: "cleaned", reqId: msg.reqId, packed, report }, [...packedTransferables(packed), report.flags.buffer as ArrayBuffer]);
+  } else if (msg.type === "filter") {
+    const packed = filterPacked(msg.packed, msg.settings, msg.joints);
+    post({ type: "filtered", reqId: msg.reqId, packed }, packedTransferables(packed));
+  }
+}